@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { api, viewSignal, isAbortError } from './api';
+import type { ServiceRecord } from './types';
+
+type Side = 'mine' | 'theirs';
+type FieldKey = keyof ServiceRecord;
+
+// Campos que a tela de edição altera (os mesmos do formulário do AdminEditRecordView)
+const FIELDS: { key: FieldKey; label: string }[] = [
+  { key: 'serviceOrderNumber', label: 'Nº Ordem de Serviço' },
+  { key: 'locationName', label: 'Nome do Local' },
+  { key: 'serviceType', label: 'Tipo de Serviço' },
+  { key: 'locationArea', label: 'Medição' },
+  { key: 'serviceUnit', label: 'Unidade' },
+  { key: 'contractGroup', label: 'Contrato/Cidade' },
+  { key: 'observations', label: 'Observações' },
+  { key: 'startTime', label: 'Início' },
+  { key: 'endTime', label: 'Fim' },
+  { key: 'beforePhotos', label: 'Fotos "Antes"' },
+  { key: 'afterPhotos', label: 'Fotos "Depois"' },
+];
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const formatValue = (key: FieldKey, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length} foto(s)`;
+  if (key === 'startTime' || key === 'endTime') return new Date(String(value)).toLocaleString('pt-BR');
+  return String(value);
+};
+
+// Sugestão inicial: com a versão original (base) em mãos, campo que só um lado mudou fica com esse lado.
+// Sem base, listas de fotos ficam com o servidor (é lá que chegam as fotos dos operadores).
+const suggestSide = (key: FieldKey, mine: ServiceRecord, theirs: ServiceRecord, base?: ServiceRecord): Side => {
+  if (base) {
+    if (isSame(mine[key], base[key])) return 'theirs';
+    if (isSame(theirs[key], base[key])) return 'mine';
+  }
+  return key === 'beforePhotos' || key === 'afterPhotos' ? 'theirs' : 'mine';
+};
+
+interface ConflictResolutionViewProps {
+  recordId: string;
+  // Versão que o usuário tentou salvar
+  mine: ServiceRecord;
+  // Versão a partir da qual o usuário editou (opcional)
+  base?: ServiceRecord;
+  onResolve: (merged: ServiceRecord, serverVersion: unknown) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function ConflictResolutionView({ recordId, mine, base, onResolve, onCancel }: ConflictResolutionViewProps) {
+  const [theirs, setTheirs] = useState<ServiceRecord | null>(null);
+  const [choices, setChoices] = useState<Partial<Record<FieldKey, Side>>>({});
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadServerVersion = async () => {
+    setError('');
+    try {
+      const current = await api.records.get(recordId, { signal: viewSignal() });
+      setTheirs(current);
+      const initial: Partial<Record<FieldKey, Side>> = {};
+      FIELDS.forEach(({ key }) => {
+        if (!isSame(mine[key], current[key])) initial[key] = suggestSide(key, mine, current, base);
+      });
+      setChoices(initial);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Falha ao carregar a versão do servidor:', err);
+      setError('Não foi possível carregar a versão atual do servidor. Verifique a conexão e tente novamente.');
+    }
+  };
+
+  useEffect(() => {
+    loadServerVersion();
+  }, [recordId]);
+
+  const handleResolve = async () => {
+    if (!theirs) return;
+    const merged: ServiceRecord = { ...theirs };
+    (Object.keys(choices) as FieldKey[]).forEach(key => {
+      (merged as Record<FieldKey, unknown>)[key] = choices[key] === 'mine' ? mine[key] : theirs[key];
+    });
+    setSaving(true);
+    try {
+      await onResolve(merged, theirs.version);
+    } catch (err) {
+      console.error('Falha ao salvar a versão combinada:', err);
+      setError('Não foi possível salvar (o registro pode ter mudado de novo enquanto você comparava). A versão do servidor foi recarregada.');
+      await loadServerVersion();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const conflictingFields = FIELDS.filter(({ key }) => key in choices);
+
+  return (
+    <div className="card conflict-resolution">
+      <h3>Registro alterado por outra pessoa</h3>
+      <p>Enquanto você editava, este registro foi modificado no servidor. Escolha, campo a campo, qual valor deve ficar.</p>
+
+      {error && <p className="text-danger">{error}</p>}
+      {!theirs && !error && <p>Carregando versão do servidor...</p>}
+
+      {theirs && (
+        conflictingFields.length === 0 ? (
+          <p>As duas versões ficaram iguais. Basta salvar para continuar.</p>
+        ) : (
+          <table className="conflict-table">
+            <thead>
+              <tr>
+                <th>Campo</th>
+                <th>Sua versão</th>
+                <th>Versão do servidor</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflictingFields.map(({ key, label }) => (
+                <tr key={key}>
+                  <td>{label}</td>
+                  {(['mine', 'theirs'] as Side[]).map(side => (
+                    <td key={side} className={choices[key] === side ? 'conflict-chosen' : ''}>
+                      <label>
+                        <input
+                          type="radio"
+                          name={`conflict-${key}`}
+                          checked={choices[key] === side}
+                          onChange={() => setChoices(prev => ({ ...prev, [key]: side }))}
+                        />
+                        {' '}{formatValue(key, side === 'mine' ? mine[key] : theirs[key])}
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      )}
+
+      <div className="button-group">
+        <button className="button button-secondary" onClick={onCancel} disabled={saving}>Cancelar</button>
+        <button className="button button-success" onClick={handleResolve} disabled={!theirs || saving}>
+          {saving ? 'Salvando...' : 'Salvar versão combinada'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { api } from './api';
 
 export default function ForgotPasswordView() {
   const [email, setEmail] = useState('');
@@ -9,13 +10,8 @@ export default function ForgotPasswordView() {
     e.preventDefault();
     setLoading(true);
     try {
-      const res = await fetch('/api/auth/forgot-password', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email }),
-      });
-      const data = await res.json();
-      setMessage(data.message || 'Verifique seu e-mail para redefinir a senha.');
+      const data = await api.auth.forgotPassword(email);
+      setMessage(data?.message || 'Verifique seu e-mail para redefinir a senha.');
     } catch (err) {
       setMessage('Erro ao enviar solicitação. Tente novamente.');
     }
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { PendingRecord } from './db';
+import { importPendingRecords } from './syncManager';
+import { readQueueBundle } from './queueBundle';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('pt-BR');
+
+export default function QueueImportView() {
+  const [records, setRecords] = useState<PendingRecord[] | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<{ imported: number; skipped: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setRecords(null);
+    setResult(null);
+    setError('');
+    setFileName(file.name);
+    setBusy(true);
+    try {
+      setRecords(await readQueueBundle(file));
+    } catch (err) {
+      console.error('Falha ao ler pacote de pendências:', err);
+      setError(err instanceof Error ? err.message : 'Não foi possível ler o arquivo.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!records) return;
+    setBusy(true);
+    setError('');
+    try {
+      setResult(await importPendingRecords(records));
+      setRecords(null);
+    } catch (err) {
+      console.error('Falha ao importar pendências:', err);
+      setError(err instanceof Error ? err.message : 'Não foi possível importar o arquivo.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2>Importar Pendências</h2>
+      <p>Selecione o arquivo .zip exportado pelo operador no painel de sincronização. Os registros entram na fila deste navegador e são enviados ao servidor como se tivessem sido feitos aqui.</p>
+
+      <input type="file" accept=".zip,application/zip" onChange={handleFileChange} disabled={busy} />
+
+      {error && <p className="text-danger">{error}</p>}
+      {busy && !records && <p>Lendo {fileName}...</p>}
+
+      {records && (
+        <>
+          <p><strong>{records.length}</strong> registro(s) em {fileName}:</p>
+          <ul className="sync-status-list">
+            {records.map(record => (
+              <li key={record.id} className="list-item">
+                <div className="list-item-info">
+                  <p><strong>Local:</strong> {record.payload?.locationName}, {record.payload?.contractGroup}</p>
+                  <p><strong>Serviço:</strong> {record.payload?.serviceType}</p>
+                  {record.payload?.startTime && <p><strong>Data:</strong> {formatDateTime(record.payload.startTime)}</p>}
+                  <p><strong>Fotos:</strong> Antes {record.photosBefore.length} · Depois {record.photosAfter.length}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button className="button button-success" onClick={handleImport} disabled={busy || records.length === 0}>
+            {busy ? 'Importando...' : 'Importar e enviar'}
+          </button>
+        </>
+      )}
+
+      {result && (
+        <p className="text-success">
+          ✅ {result.imported} registro(s) adicionados à fila de envio
+          {result.skipped > 0 && ` (${result.skipped} já estavam na fila e foram ignorados)`}. Acompanhe o envio pelo botão de sincronização no topo.
+        </p>
+      )}
+    </div>
+  );
+}
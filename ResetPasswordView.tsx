@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { api, ApiError } from './api';
 
 export default function ResetPasswordView() {
   const [password, setPassword] = useState('');
@@ -24,24 +25,16 @@ export default function ResetPasswordView() {
     setMessage('');
 
     try {
-      const res = await fetch('/api/auth/reset-password', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ token, password }),
-      });
-
-      const data = await res.json();
-      
-      // Verifica se a resposta da API foi positiva (status 2xx)
-      if (res.ok) {
-        setMessage(data.message || 'Senha redefinida com sucesso!');
-        setIsSuccess(true); // Define o sucesso como verdadeiro
-      } else {
+      const data = await api.auth.resetPassword(token, password);
+      setMessage(data?.message || 'Senha redefinida com sucesso!');
+      setIsSuccess(true); // Define o sucesso como verdadeiro
+    } catch (err) {
+      if (err instanceof ApiError) {
         // Se a API retornar um erro (status 4xx, 5xx), exibe a mensagem de erro
-        setMessage(data.message || 'Ocorreu um erro. O token pode ser inválido ou ter expirado.');
+        setMessage(err.serverMessage || 'Ocorreu um erro. O token pode ser inválido ou ter expirado.');
+      } else {
+        setMessage('Erro de conexão. Tente novamente.');
       }
-    } catch (err) {
-      setMessage('Erro de conexão. Tente novamente.');
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { getPendingRecords, getOutboxMutations, getQueuedBytes, PendingRecord, PendingPhoto, OutboxMutation, MutationType } from './db';
+import {
+  retryPendingRecord, discardPendingRecord, retryMutation, discardMutation, resolveMutationConflict, versionTag, SYNC_STATUS_EVENT,
+} from './syncManager';
+import { exportPendingQueue } from './queueBundle';
+import ConflictResolutionView from './ConflictResolutionView';
+
+const formatDateTime = (value: string | number) => new Date(value).toLocaleString('pt-BR');
+
+const MUTATION_LABELS: Record<MutationType, string> = {
+  updateRecord: 'Edição do registro',
+  adjustMeasurement: 'Ajuste de medição',
+  deleteRecord: 'Exclusão do registro',
+  addPhotos: 'Inclusão de fotos',
+  removePhoto: 'Remoção de foto',
+};
+
+const describeStatus = (item: PendingRecord | OutboxMutation) => {
+  if ('conflict' in item && item.conflict) return { label: 'Conflito — o registro foi alterado por outra pessoa', className: 'sync-status-failed' };
+  if (item.status === 'failed') return { label: 'Falhou — precisa de atenção', className: 'sync-status-failed' };
+  if (item.nextAttemptAt && item.nextAttemptAt > Date.now()) {
+    return { label: `Aguardando nova tentativa (${formatDateTime(item.nextAttemptAt)})`, className: 'sync-status-waiting' };
+  }
+  if ('serverId' in item && item.serverId) return { label: 'Registro criado, enviando fotos', className: 'sync-status-sending' };
+  return { label: 'Aguardando envio', className: 'sync-status-waiting' };
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(Math.round(bytes / 1024), 1)} KB`;
+
+const countUploaded = (photos: PendingPhoto[] = []) => photos.filter(photo => photo.uploaded).length;
+
+export default function SyncStatusView() {
+  const [items, setItems] = useState<PendingRecord[]>([]);
+  const [mutations, setMutations] = useState<OutboxMutation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [resolving, setResolving] = useState<OutboxMutation | null>(null);
+
+  const loadItems = async () => {
+    try {
+      const pending = await getPendingRecords();
+      setItems(pending.sort((a, b) => String(a.payload?.startTime).localeCompare(String(b.payload?.startTime))));
+      setMutations(await getOutboxMutations());
+    } catch (err) {
+      console.error('Falha ao ler a fila de sincronização:', err);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadItems();
+    window.addEventListener(SYNC_STATUS_EVENT, loadItems);
+    return () => window.removeEventListener(SYNC_STATUS_EVENT, loadItems);
+  }, []);
+
+  const handleRetry = async (id: string) => {
+    setBusyId(id);
+    try {
+      await retryPendingRecord(id);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetryMutation = async (seq: number) => {
+    setBusyId(`m-${seq}`);
+    try {
+      await retryMutation(seq);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscardMutation = async (mutation: OutboxMutation) => {
+    if (!window.confirm(`Descartar "${MUTATION_LABELS[mutation.type]}" do registro ${mutation.recordId}? A alteração não será enviada ao servidor.`)) return;
+    await discardMutation(mutation.seq!);
+  };
+
+  const handleDiscard = async (item: PendingRecord) => {
+    const photoCount = (item.photosBefore?.length || 0) + (item.photosAfter?.length || 0);
+    if (!window.confirm(`Descartar o registro de "${item.payload?.locationName}" e suas ${photoCount} foto(s)? Esta ação não pode ser desfeita.`)) return;
+    await discardPendingRecord(item.id);
+  };
+
+  // Baixa a fila inteira (dados + fotos) num .zip que o administrador pode importar em outro navegador
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const bundle = await exportPendingQueue();
+      const url = URL.createObjectURL(bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `crb-pendencias-${new Date().toISOString().slice(0, 16).replace(/[:T]/g, '-')}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error('Falha ao exportar a fila:', err);
+      alert('Não foi possível exportar os registros pendentes.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) return <p>Carregando fila...</p>;
+
+  if (resolving) {
+    return (
+      <ConflictResolutionView
+        recordId={resolving.recordId}
+        mine={resolving.body}
+        onResolve={async (merged, serverVersion) => {
+          await resolveMutationConflict(resolving.seq!, merged, versionTag(serverVersion));
+          setResolving(null);
+        }}
+        onCancel={() => setResolving(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="card">
+      <h2>Sincronização</h2>
+      {items.length === 0 && mutations.length === 0 && (
+        <p className="text-success">✅ Tudo enviado. Nenhum registro aguardando sincronização.</p>
+      )}
+      {items.length > 0 && (
+        <>
+          <p>{items.length} registro(s) ainda não chegaram ao servidor. Eles são enviados automaticamente quando houver conexão.</p>
+          <ul className="sync-status-list">
+            {items.map(item => {
+              const status = describeStatus(item);
+              return (
+                <li key={item.id} className="list-item">
+                  <div className="list-item-info">
+                    <p><strong>Local:</strong> {item.payload?.locationName}, {item.payload?.contractGroup}</p>
+                    <p><strong>Serviço:</strong> {item.payload?.serviceType}</p>
+                    {item.payload?.startTime && <p><strong>Data:</strong> {formatDateTime(item.payload.startTime)}</p>}
+                    <p><strong>Fotos:</strong> Antes {countUploaded(item.photosBefore)}/{item.photosBefore?.length || 0} · Depois {countUploaded(item.photosAfter)}/{item.photosAfter?.length || 0} enviadas ({formatBytes(getQueuedBytes(item))} no aparelho)</p>
+                    <p><strong>Status:</strong> <span className={status.className}>{status.label}</span></p>
+                    {!!item.attempts && <p><strong>Tentativas:</strong> {item.attempts}{item.lastAttemptAt ? ` (última em ${formatDateTime(item.lastAttemptAt)})` : ''}</p>}
+                    {item.lastError && <p className="text-danger"><strong>Último erro:</strong> {item.lastError}</p>}
+                  </div>
+                  <div className="list-item-actions">
+                    <button className="button button-sm" onClick={() => handleRetry(item.id)} disabled={busyId === item.id}>
+                      {busyId === item.id ? 'Enviando...' : 'Tentar agora'}
+                    </button>
+                    <button className="button button-sm button-danger" onClick={() => handleDiscard(item)} disabled={busyId === item.id}>Descartar</button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          <p className="sync-export-hint">Aparelho com problema ou servidor fora do ar por muito tempo? Exporte as pendências e entregue o arquivo ao administrador.</p>
+          <button className="button button-secondary" onClick={handleExport} disabled={exporting}>
+            {exporting ? 'Gerando arquivo...' : '📦 Exportar pendências (.zip)'}
+          </button>
+        </>
+      )}
+      {mutations.length > 0 && (
+        <>
+          <h3>Alterações aguardando envio</h3>
+          <p>{mutations.length} alteração(ões) feitas sem conexão. São enviadas na ordem em que foram feitas.</p>
+          <ul className="sync-status-list">
+            {mutations.map(mutation => {
+              const status = describeStatus(mutation);
+              const busy = busyId === `m-${mutation.seq}`;
+              return (
+                <li key={mutation.seq} className="list-item">
+                  <div className="list-item-info">
+                    <p><strong>{MUTATION_LABELS[mutation.type]}</strong> — registro {mutation.recordId}</p>
+                    <p><strong>Feita em:</strong> {formatDateTime(mutation.createdAt)}</p>
+                    <p><strong>Status:</strong> <span className={status.className}>{status.label}</span></p>
+                    {!!mutation.attempts && <p><strong>Tentativas:</strong> {mutation.attempts}{mutation.lastAttemptAt ? ` (última em ${formatDateTime(mutation.lastAttemptAt)})` : ''}</p>}
+                    {mutation.lastError && <p className="text-danger"><strong>Último erro:</strong> {mutation.lastError}</p>}
+                  </div>
+                  <div className="list-item-actions">
+                    {mutation.conflict && mutation.type === 'updateRecord' ? (
+                      <button className="button button-sm" onClick={() => setResolving(mutation)}>Resolver conflito</button>
+                    ) : (
+                      <button className="button button-sm" onClick={() => handleRetryMutation(mutation.seq!)} disabled={busy}>
+                        {busy ? 'Enviando...' : 'Tentar agora'}
+                      </button>
+                    )}
+                    <button className="button button-sm button-danger" onClick={() => handleDiscardMutation(mutation)} disabled={busy}>Descartar</button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,52 +1,624 @@
 // src/api.ts
+// Cliente único da API: token, tratamento de erro e uma função por rota do backend.
+// As respostas saem daqui já normalizadas (IDs numéricos viram string), no formato de types.ts.
+import { getSessionToken, saveSessionToken, getRefreshToken, saveRefreshToken } from "./db";
+import type {
+  ServiceRecord, LocationRecord, ServiceDefinition, Unit, User, Goal, AuditLogEntry, AuditAction,
+  ContractConfig, RecordChanges, PerformanceGraphData, NewRecordPayload, PhotoMetadata,
+} from "./types";
 
-// Wrapper para chamadas de API
-export async function apiFetch(url: string, options: any = {}) {
-  // 🔧 Se não definir VITE_API_BASE no .env, usa "" (proxy do Nginx cuida do /api)
-  // FIX: Cast import.meta to any to access Vite environment variables.
-  const baseUrl = (import.meta as any).env.VITE_API_BASE || "";
-  const fullUrl = baseUrl + url;
+// Erro HTTP com o status preservado (usado pela fila de sincronização para decidir se repete)
+export class ApiError extends Error {
+  status: number;
+  body: string;
+  // Código de erro enviado pelo servidor (ex.: "EMAIL_ALREADY_EXISTS"), quando houver
+  code?: string;
+  // Mensagem do servidor, já extraída do corpo JSON
+  serverMessage?: string;
+  // Mensagens de validação por campo do formulário (nome do campo no payload -> mensagem)
+  fieldErrors: Record<string, string>;
+  // ID da requisição (X-Request-Id), para localizar o erro nos logs do servidor
+  requestId?: string;
 
-  // 🔑 Recupera sempre o token JWT do localStorage
-  const token = localStorage.getItem("crbApiToken");
+  constructor(status: number, body: string, requestId?: string | null) {
+    super(`API Error ${status}: ${body}`);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
 
-  // Monta headers padrão
-  const defaultHeaders: Record<string, string> = {};
-  if (!(options.body instanceof FormData)) {
-    defaultHeaders["Content-Type"] = "application/json";
+    const parsed = parseErrorBody(body);
+    this.code = parsed.code;
+    this.serverMessage = parsed.message;
+    this.fieldErrors = parsed.fieldErrors;
+    this.requestId = requestId || parsed.requestId;
   }
-  if (token) {
-    defaultHeaders["Authorization"] = `Bearer ${token}`;
+}
+
+// Sessão expirada e não renovada: quem chama (ex.: a fila de sincronização) deve esperar um novo login
+export class SessionExpiredError extends ApiError {
+  constructor(body = "") {
+    super(401, body);
+    this.name = "SessionExpiredError";
   }
+}
 
-  // Faz request
-  const res = await fetch(fullUrl, {
-    headers: {
-      ...defaultHeaders,
-      ...(options.headers || {}),
-    },
-    ...options,
+// O servidor não respondeu dentro do prazo (conexão lenta): tratado como falha de rede, pode repetir
+export class RequestTimeoutError extends Error {
+  constructor(path: string, timeoutMs: number) {
+    super(`Tempo esgotado (${Math.round(timeoutMs / 1000)}s) aguardando ${path}`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+// Requisição cancelada de propósito (usuário saiu da tela): não é erro para mostrar
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+// Aceita os dois formatos do backend: { code, message, errors: { campo: msg } | [{ field, message }] }
+// e o padrão do class-validator, { statusCode, error, message: ["campo deve ...", ...] }
+function parseErrorBody(body: string) {
+  const result: { code?: string; message?: string; fieldErrors: Record<string, string>; requestId?: string } = { fieldErrors: {} };
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return result;
+  }
+  if (!data || typeof data !== "object") return result;
+
+  if (typeof data.code === "string") result.code = data.code;
+  if (data.requestId) result.requestId = String(data.requestId);
+
+  if (Array.isArray(data.errors)) {
+    data.errors.forEach((e: any) => {
+      if (e?.field && e?.message) result.fieldErrors[e.field] = String(e.message);
+    });
+  } else if (data.errors && typeof data.errors === "object") {
+    Object.entries(data.errors).forEach(([field, message]) => {
+      result.fieldErrors[field] = Array.isArray(message) ? String(message[0]) : String(message);
+    });
+  }
+
+  if (Array.isArray(data.message)) {
+    // O class-validator começa cada mensagem pelo nome da propriedade
+    data.message.forEach((message: string) => {
+      const field = String(message).split(" ")[0];
+      if (field && !result.fieldErrors[field]) result.fieldErrors[field] = String(message);
+    });
+  } else if (typeof data.message === "string") {
+    result.message = data.message;
+  }
+  return result;
+}
+
+// 🔧 Se não definir VITE_API_BASE no .env, usa "" (proxy do Nginx cuida do /api)
+export const API_BASE: string = (import.meta as any).env?.VITE_API_BASE || "";
+
+const TOKEN_KEY = "crbApiToken";
+
+// Token JWT em memória; o localStorage guarda entre recargas e o IndexedDB serve ao service worker
+let apiToken: string | null = typeof localStorage !== "undefined" ? localStorage.getItem(TOKEN_KEY) : null;
+
+export function getApiToken() {
+  return apiToken;
+}
+
+// Sem refreshToken o refresh atual é mantido; no logout (token null) os dois são apagados
+export function setApiToken(token: string | null, refreshToken?: string | null) {
+  apiToken = token;
+  if (typeof localStorage !== "undefined") {
+    if (token) {
+      localStorage.setItem(TOKEN_KEY, token);
+    } else {
+      localStorage.removeItem(TOKEN_KEY);
+    }
+  }
+  saveSessionToken(token).catch(err => console.warn("Falha ao salvar token para o service worker:", err));
+  if (!token || refreshToken !== undefined) {
+    saveRefreshToken(token ? refreshToken ?? null : null).catch(err => console.warn("Falha ao salvar refresh token:", err));
+  }
+  settleReauthentication(token);
+}
+
+// Rotas de autenticação: um 401 nelas é senha ou token inválido, não sessão expirada
+const AUTH_PATHS = ["/api/auth/login", "/api/auth/refresh", "/api/auth/forgot-password", "/api/auth/reset-password"];
+
+// A página registra quem pede o novo login (modal). Sem handler (service worker) o 401 vira SessionExpiredError.
+let sessionExpiredHandler: (() => void) | null = null;
+let reauthWaiters: { resolve: () => void; reject: (err: unknown) => void }[] = [];
+// Prazo para o novo login; depois disso a requisição falha como sessão expirada
+const REAUTH_TIMEOUT_MS = 10 * 60_000;
+let refreshInFlight: Promise<boolean> | null = null;
+
+export function onSessionExpired(handler: (() => void) | null) {
+  sessionExpiredHandler = handler;
+}
+
+// Requisições que receberam 401 esperam aqui até o usuário entrar de novo (ou sair), no máximo REAUTH_TIMEOUT_MS
+function waitForReauthentication(signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      reauthWaiters = reauthWaiters.filter(w => w !== waiter);
+    };
+    const giveUp = (err: unknown) => {
+      cleanup();
+      reject(err);
+    };
+    const onAbort = () => giveUp(new DOMException("Requisição cancelada", "AbortError"));
+    const waiter = {
+      resolve: () => {
+        cleanup();
+        resolve();
+      },
+      reject: giveUp,
+    };
+    const timer = setTimeout(() => giveUp(new SessionExpiredError()), REAUTH_TIMEOUT_MS);
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort);
+    reauthWaiters.push(waiter);
+    // Um aviso por expiração, mesmo com várias requisições esperando
+    if (reauthWaiters.length === 1) sessionExpiredHandler?.();
   });
+}
+
+function settleReauthentication(token: string | null) {
+  const waiters = reauthWaiters;
+  reauthWaiters = [];
+  waiters.forEach(waiter => (token ? waiter.resolve() : waiter.reject(new SessionExpiredError())));
+}
+
+// Renova o JWT com o refresh token. Vários 401 ao mesmo tempo compartilham a mesma renovação.
+// Erro de rede é repassado: sem sinal não dá para saber se a sessão acabou.
+function refreshSession(expiredToken: string | null) {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      // Outra aba ou o service worker pode já ter renovado: o token novo está no IndexedDB
+      const stored = await getSessionToken().catch(() => null);
+      if (stored && stored !== expiredToken) {
+        setApiToken(stored);
+        return true;
+      }
+
+      const refreshToken = await getRefreshToken().catch(() => null);
+      if (!refreshToken) return false;
+
+      const res = await fetch(`${API_BASE}/api/auth/refresh`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      });
+      if (!res.ok) return false;
+      const data = await res.json().catch(() => null);
+      if (!data?.access_token) return false;
+      setApiToken(data.access_token, data.refresh_token ?? refreshToken);
+      return true;
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+// Prazos por requisição: uploads de foto em 2G demoram bem mais que as chamadas JSON
+const DEFAULT_TIMEOUT_MS = 20_000;
+const UPLOAD_TIMEOUT_MS = 120_000;
+
+// GETs são idempotentes: falha de rede, timeout ou servidor sobrecarregado repetem até 2 vezes
+const GET_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRYABLE_STATUS = new Set([408, 429, 502, 503, 504]);
+
+// Acima disso a interface avisa que a conexão está lenta
+const SLOW_REQUEST_MS = 5_000;
+
+export interface ApiRequestOptions extends RequestInit {
+  timeoutMs?: number;
+  // Requisições da fila de sincronização: não acendem o aviso de conexão lenta
+  background?: boolean;
+}
+
+let slowRequests = 0;
+const slowListeners = new Set<(slow: boolean) => void>();
+
+// Avisa quando passa a haver (ou deixa de haver) requisição demorando mais que SLOW_REQUEST_MS
+export function onConnectionSlow(listener: (slow: boolean) => void) {
+  slowListeners.add(listener);
+  return () => {
+    slowListeners.delete(listener);
+  };
+}
+
+function changeSlowCount(delta: number) {
+  const wasSlow = slowRequests > 0;
+  slowRequests += delta;
+  if (wasSlow !== slowRequests > 0) slowListeners.forEach(listener => listener(slowRequests > 0));
+}
+
+function trackSlowRequest() {
+  let slow = false;
+  const timer = setTimeout(() => {
+    slow = true;
+    changeSlowCount(1);
+  }, SLOW_REQUEST_MS);
+  return () => {
+    clearTimeout(timer);
+    if (slow) changeSlowCount(-1);
+  };
+}
+
+// Requisições da tela atual: o App cancela quando o usuário navega para outra tela
+let viewController = new AbortController();
+
+export function viewSignal() {
+  return viewController.signal;
+}
+
+export function cancelViewRequests() {
+  viewController.abort();
+  viewController = new AbortController();
+}
+
+// Uma tentativa, com prazo. O corpo é lido dentro do prazo (em 2G a resposta pode travar no meio).
+async function sendRequest(path: string, options: ApiRequestOptions) {
+  const { timeoutMs = options.body instanceof FormData ? UPLOAD_TIMEOUT_MS : DEFAULT_TIMEOUT_MS, background, signal, ...init } = options;
+  const headers = new Headers(init.headers || {});
+  // No service worker não há localStorage: o token vem da cópia no IndexedDB
+  const token = apiToken ?? (typeof localStorage === "undefined" ? await getSessionToken() : null);
+  if (token && !headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  if (!(init.body instanceof FormData) && !headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener("abort", forwardAbort);
+  const stopTracking = background ? () => {} : trackSlowRequest();
+
+  try {
+    const res = await fetch(`${API_BASE}${path}`, { ...init, headers, signal: controller.signal });
+    const body = await res.text();
+    return { res, body, token };
+  } catch (err) {
+    if (timedOut) throw new RequestTimeoutError(path, timeoutMs);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", forwardAbort);
+    stopTracking();
+  }
+}
+
+async function requestOnce(path: string, options: ApiRequestOptions) {
+  let { res, body, token } = await sendRequest(path, options);
+
+  // Sessão expirada: renova (ou espera o novo login) e repete a requisição uma vez
+  if (res.status === 401 && !AUTH_PATHS.includes(path)) {
+    if (!(await refreshSession(token))) {
+      if (!sessionExpiredHandler) {
+        throw new SessionExpiredError(body);
+      }
+      // Sincronização não espera o login: ela segura o lock da fila (service worker e outras abas
+      // ficariam parados). Avisa o usuário e falha; a fila pausa e volta a andar depois do novo login.
+      if (options.background) {
+        if (reauthWaiters.length === 0) sessionExpiredHandler();
+        throw new SessionExpiredError(body);
+      }
+      await waitForReauthentication(options.signal ?? undefined);
+    }
+    ({ res, body } = await sendRequest(path, options));
+  }
 
   // Trata erro HTTP
   if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    console.error("API Error:", res.status, text);
-    throw new Error(`API Error ${res.status}: ${text}`);
+    console.error("API Error:", res.status, body);
+    throw new ApiError(res.status, body, res.headers.get("X-Request-Id"));
   }
 
-  // 204 No Content → retorna null
-  if (res.status === 204) return null;
+  // 204 No Content (ou corpo vazio) → retorna null
+  if (res.status === 204 || !body) return null;
 
-  // Caso contrário, parse JSON
-  return res.json();
+  return JSON.parse(body);
 }
 
-// Helpers opcionais: setar/remover token
-export function setApiToken(token: string | null) {
-  if (token) {
-    localStorage.setItem("crbApiToken", token);
-  } else {
-    localStorage.removeItem("crbApiToken");
+function isRetryable(err: unknown) {
+  if (err instanceof RequestTimeoutError) return true;
+  if (err instanceof ApiError) return RETRYABLE_STATUS.has(err.status);
+  // Sem rede nenhuma não adianta insistir: a tela cai logo no cache/fila
+  return err instanceof TypeError && navigator.onLine;
+}
+
+// Espera exponencial com jitter (±50%) antes de repetir
+function waitBeforeRetry(attempt: number, signal?: AbortSignal | null) {
+  const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random());
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", cancel);
+      resolve();
+    }, delay);
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Requisição cancelada", "AbortError"));
+    };
+    signal?.addEventListener("abort", cancel, { once: true });
+  });
+}
+
+// Wrapper para chamadas de API
+export async function apiFetch(path: string, options: ApiRequestOptions = {}) {
+  const method = (options.method || "GET").toUpperCase();
+  const maxRetries = method === "GET" ? GET_MAX_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestOnce(path, options);
+    } catch (err) {
+      if (attempt >= maxRetries || options.signal?.aborted || !isRetryable(err)) throw err;
+      console.warn(`Repetindo ${path} (tentativa ${attempt + 2}):`, err);
+      // Esperando para repetir também conta como conexão lenta
+      if (!options.background) changeSlowCount(1);
+      try {
+        await waitBeforeRetry(attempt, options.signal);
+      } finally {
+        if (!options.background) changeSlowCount(-1);
+      }
+    }
   }
 }
+
+// Opções das rotas de leitura
+export interface ReadOptions {
+  // Normalmente viewSignal(): a leitura é cancelada se o usuário sair da tela
+  signal?: AbortSignal;
+  background?: boolean;
+}
+
+// Opções extras das rotas que alteram registros
+export interface WriteOptions {
+  // Chave de idempotência: repetir o envio não duplica nada no servidor
+  idempotencyKey?: string;
+  // Versão esperada do registro (ETag); o servidor responde 409/412 se mudou
+  ifMatch?: string | null;
+  background?: boolean;
+}
+
+// Upload de fotos: metadata[i] descreve files[i] (data, posição e serviço de cada foto)
+export interface UploadOptions extends WriteOptions {
+  metadata?: (PhotoMetadata | undefined)[];
+}
+
+const read = ({ signal, background }: ReadOptions = {}): ApiRequestOptions => ({ signal, background });
+
+function writeHeaders({ idempotencyKey, ifMatch }: WriteOptions = {}) {
+  const headers: Record<string, string> = {};
+  if (idempotencyKey) headers["Idempotency-Key"] = idempotencyKey;
+  if (ifMatch) headers["If-Match"] = ifMatch;
+  return headers;
+}
+
+function json(method: string, body: unknown, options?: WriteOptions): ApiRequestOptions {
+  return { method, headers: writeHeaders(options), body: JSON.stringify(body), background: options?.background };
+}
+
+// Evita respostas em cache do navegador/proxy nas listagens que mudam com frequência
+const noCache = () => `t=${Date.now()}`;
+
+// --- Normalização (IDs numéricos do backend → string) ---
+
+const toId = (value: unknown) => (value === null || value === undefined ? undefined : String(value));
+
+export const normalizeRecord = (r: any): ServiceRecord => ({
+  ...r,
+  id: String(r.id),
+  operatorId: String(r.operatorId),
+  locationId: r.locationId ? String(r.locationId) : undefined,
+});
+
+export const normalizeLocation = (l: any): LocationRecord => ({
+  ...l,
+  id: String(l.id),
+  isGroup: !!l.isGroup,
+  parentId: l.parentId ? String(l.parentId) : null,
+  services: (l.services || []).map((s: any) => ({ ...s, serviceId: String(s.serviceId) })),
+});
+
+export const normalizeService = (s: any): ServiceDefinition => ({ ...s, id: String(s.id), unitId: String(s.unitId) });
+
+export const normalizeUnit = (u: any): Unit => ({ ...u, id: String(u.id) });
+
+export const normalizeUser = (u: any): User => ({
+  ...u,
+  id: String(u.id),
+  username: u.name || u.email,
+  assignments: u.assignments || [],
+});
+
+export const normalizeGoal = (g: any): Goal => ({ ...g, id: String(g.id) });
+
+export const normalizeAuditLogEntry = (e: any): AuditLogEntry => ({
+  ...e,
+  id: String(e.id),
+  adminId: String(e.adminId),
+  recordId: String(e.recordId),
+});
+
+// --- Rotas ---
+
+export const api = {
+  auth: {
+    async login(email: string, password: string): Promise<{ access_token: string; refresh_token?: string }> {
+      return apiFetch("/api/auth/login", json("POST", { email, password }));
+    },
+    async me(): Promise<User> {
+      return normalizeUser(await apiFetch("/api/auth/me"));
+    },
+    async forgotPassword(email: string): Promise<{ message?: string }> {
+      return apiFetch("/api/auth/forgot-password", json("POST", { email }));
+    },
+    async resetPassword(token: string, password: string): Promise<{ message?: string }> {
+      return apiFetch("/api/auth/reset-password", json("POST", { token, password }));
+    },
+  },
+
+  records: {
+    async list(): Promise<ServiceRecord[]> {
+      return (await apiFetch(`/api/records?${noCache()}`)).map(normalizeRecord);
+    },
+    async changes(since?: string): Promise<RecordChanges> {
+      const query = since ? `?since=${encodeURIComponent(since)}` : "";
+      const delta = await apiFetch(`/api/records/changes${query}`);
+      return {
+        records: (delta.records || []).map(normalizeRecord),
+        deleted: (delta.deleted || []).map(String),
+        cursor: toId(delta.cursor) ?? null,
+      };
+    },
+    async get(id: string, options?: ReadOptions): Promise<ServiceRecord> {
+      return normalizeRecord(await apiFetch(`/api/records/${id}`, read(options)));
+    },
+    async create(payload: NewRecordPayload, options?: WriteOptions): Promise<ServiceRecord> {
+      return normalizeRecord(await apiFetch("/api/records", json("POST", payload, options)));
+    },
+    async update(id: string, changes: Partial<ServiceRecord>, options?: WriteOptions): Promise<ServiceRecord> {
+      return normalizeRecord(await apiFetch(`/api/records/${id}`, json("PUT", changes, options)));
+    },
+    async adjustMeasurement(id: string, overrideMeasurement: string | number, options?: WriteOptions): Promise<Partial<ServiceRecord>> {
+      return apiFetch(`/api/records/${id}/measurement`, json("PUT", { overrideMeasurement }, options));
+    },
+    async remove(id: string, options?: WriteOptions): Promise<void> {
+      await apiFetch(`/api/records/${id}`, { method: "DELETE", headers: writeHeaders(options), background: options?.background });
+    },
+    async uploadPhotos(id: string, phase: "BEFORE" | "AFTER", files: File[], options?: UploadOptions) {
+      const fd = new FormData();
+      fd.append("phase", phase);
+      files.forEach(file => fd.append("files", file));
+      // Um campo "metadata" por arquivo, na mesma ordem ("null" quando a foto não tem)
+      if (options?.metadata?.some(Boolean)) {
+        files.forEach((_, index) => fd.append("metadata", JSON.stringify(options.metadata![index] ?? null)));
+      }
+      return apiFetch(`/api/records/${id}/photos`, { method: "POST", headers: writeHeaders(options), body: fd, background: options?.background });
+    },
+  },
+
+  locations: {
+    async list(): Promise<LocationRecord[]> {
+      return (await apiFetch(`/api/locations?${noCache()}`)).map(normalizeLocation);
+    },
+    async create(payload: any) {
+      return apiFetch("/api/locations", json("POST", payload));
+    },
+    async update(id: string, payload: any) {
+      return apiFetch(`/api/locations/${id}`, json("PUT", payload));
+    },
+    async remove(id: string): Promise<void> {
+      await apiFetch(`/api/locations/${id}`, { method: "DELETE" });
+    },
+  },
+
+  contractGroups: {
+    async rename(name: string, newName: string) {
+      return apiFetch(`/api/contract-groups/${encodeURIComponent(name)}`, json("PUT", { newName }));
+    },
+    // Exige a senha do administrador: apaga o contrato e todos os locais dele
+    async remove(name: string, password: string): Promise<void> {
+      await apiFetch(`/api/contract-groups/${encodeURIComponent(name)}`, json("DELETE", { password }));
+    },
+  },
+
+  contractConfigs: {
+    async list(): Promise<ContractConfig[]> {
+      return (await apiFetch("/api/contract-configs")) || [];
+    },
+    async save(configs: { contractGroup: string; cycleStartDay: number; geofenceRadius: number }[]) {
+      return apiFetch("/api/contract-configs", json("POST", { configs }));
+    },
+  },
+
+  services: {
+    async list(): Promise<ServiceDefinition[]> {
+      return (await apiFetch(`/api/services?${noCache()}`)).map(normalizeService);
+    },
+    async create(payload: { name: string; unitId: number }) {
+      return apiFetch("/api/services", json("POST", payload));
+    },
+    async update(id: string, payload: { name: string; unitId: number }) {
+      return apiFetch(`/api/services/${id}`, json("PUT", payload));
+    },
+    async remove(id: string): Promise<void> {
+      await apiFetch(`/api/services/${id}`, { method: "DELETE" });
+    },
+  },
+
+  units: {
+    async list(options?: ReadOptions): Promise<Unit[]> {
+      return (await apiFetch("/api/units", read(options))).map(normalizeUnit);
+    },
+    async create(payload: { name: string; symbol: string }) {
+      return apiFetch("/api/units", json("POST", payload));
+    },
+    async update(id: string, payload: { name: string; symbol: string }) {
+      return apiFetch(`/api/units/${id}`, json("PUT", payload));
+    },
+    async remove(id: string): Promise<void> {
+      await apiFetch(`/api/units/${id}`, { method: "DELETE" });
+    },
+  },
+
+  users: {
+    async list(): Promise<User[]> {
+      return (await apiFetch("/api/users")).map(normalizeUser);
+    },
+    async create(payload: any) {
+      return apiFetch("/api/users", json("POST", payload));
+    },
+    async update(id: string, payload: any) {
+      return apiFetch(`/api/users/${id}`, json("PUT", payload));
+    },
+    async remove(id: string): Promise<void> {
+      await apiFetch(`/api/users/${id}`, { method: "DELETE" });
+    },
+  },
+
+  goals: {
+    async list(options?: ReadOptions): Promise<Goal[]> {
+      return (await apiFetch("/api/goals", read(options))).map(normalizeGoal);
+    },
+    async create(payload: Omit<Goal, "id">): Promise<Goal> {
+      return normalizeGoal(await apiFetch("/api/goals", json("POST", payload)));
+    },
+    async update(id: string, payload: Omit<Goal, "id">): Promise<Goal> {
+      return normalizeGoal(await apiFetch(`/api/goals/${id}`, json("PUT", payload)));
+    },
+    async remove(id: string): Promise<void> {
+      await apiFetch(`/api/goals/${id}`, { method: "DELETE" });
+    },
+  },
+
+  auditLog: {
+    async list(): Promise<AuditLogEntry[]> {
+      return (await apiFetch("/api/auditlog")).map(normalizeAuditLogEntry);
+    },
+    async add(action: AuditAction, details: string, recordId?: string) {
+      return apiFetch("/api/auditlog", json("POST", { action, recordId: recordId ? parseInt(recordId) : 0, details }));
+    },
+  },
+
+  reports: {
+    async performanceGraph(startDate: string, endDate: string, contractGroups: string[], options?: ReadOptions): Promise<PerformanceGraphData> {
+      const params = new URLSearchParams({ startDate, endDate });
+      contractGroups.forEach(c => params.append("contractGroups", c));
+      return apiFetch(`/api/reports/performance-graph?${params.toString()}`, read(options));
+    },
+  },
+};
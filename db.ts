@@ -1,29 +1,359 @@
 import { openDB } from "idb";
+import type { PhotoMetadata } from "./types";
 
 const DB_NAME = "crbApp";
+const DB_VERSION = 7;
 const STORE_NAME = "pendingRecords";
+const ID_MAP_STORE = "idMappings";
+const REFERENCE_STORE = "referenceData";
+const RECORDS_STORE = "records";
+const CURSOR_STORE = "syncCursors";
+const SESSION_STORE = "session";
+const OUTBOX_STORE = "outbox";
+
+// Prefixo usado pela versão antiga, que guardava o mapeamento no localStorage
+const LEGACY_SYNC_MAP_PREFIX = "sync_map_";
+// Marca no localStorage de que os mapeamentos antigos já foram trazidos para o IndexedDB
+const LEGACY_SYNC_MAP_MIGRATED_KEY = "crb_sync_map_migrated";
+
+// "pending" = aguardando envio; "failed" = rejeitado pelo servidor, precisa de atenção
+export type PendingStatus = "pending" | "failed";
+
+// Cada foto é enviada sozinha; o id vai como chave de idempotência do upload
+export interface PendingPhoto {
+  id: string;
+  file: File;
+  uploaded: boolean;
+  metadata?: PhotoMetadata;
+}
+
+export interface PendingRecord {
+  id: string;
+  payload: any;
+  photosBefore: PendingPhoto[];
+  photosAfter: PendingPhoto[];
+  status: PendingStatus;
+  // ID do registro no servidor, gravado assim que o POST /api/records responde
+  serverId?: string | null;
+  // Bytes das fotos guardadas na fila para este registro
+  queuedBytes?: number;
+  attempts?: number;
+  lastError?: string | null;
+  lastAttemptAt?: string | null;
+  nextAttemptAt?: number;
+}
+
+// Alterações feitas por admin/fiscal em registros que já estão no servidor
+export type MutationType = "updateRecord" | "adjustMeasurement" | "deleteRecord" | "addPhotos" | "removePhoto";
+
+export interface OutboxMutation {
+  // Ordem de criação (autoIncrement): as alterações de um mesmo registro são enviadas nessa ordem
+  seq?: number;
+  // Vai como chave de idempotência no envio
+  id: string;
+  type: MutationType;
+  recordId: string;
+  body?: any;
+  phase?: "BEFORE" | "AFTER";
+  files?: File[];
+  // Versão do registro em que a alteração foi baseada (If-Match)
+  ifMatch?: string | null;
+  // O servidor respondeu 409/412: o registro mudou desde então e alguém precisa escolher os campos
+  conflict?: boolean;
+  createdAt: string;
+  status: PendingStatus;
+  attempts?: number;
+  lastError?: string | null;
+  lastAttemptAt?: string | null;
+  nextAttemptAt?: number;
+}
+
+// tempId (gerado no aparelho) -> ID real do registro no servidor
+export interface IdMapping {
+  tempId: string;
+  serverId: string;
+  syncedAt: number;
+}
+
+// Cópia local dos cadastros (locais, serviços, ciclos) para abrir o app sem sinal
+export type ReferenceDataset = "locations" | "services" | "contractConfigs";
+
+export interface CachedDataset<T = any> {
+  dataset: ReferenceDataset;
+  items: T[];
+  updatedAt: number;
+}
+
+// Posição da última sincronização incremental de cada conjunto de dados
+export interface SyncCursor {
+  dataset: string;
+  cursor: string;
+  updatedAt: number;
+}
 
 export async function getDB() {
-  return openDB(DB_NAME, 1, {
-    upgrade(db) {
+  return openDB(DB_NAME, DB_VERSION, {
+    upgrade(db, oldVersion, _newVersion, transaction) {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: "id" });
       }
+      if (!db.objectStoreNames.contains(ID_MAP_STORE)) {
+        const idMap = db.createObjectStore(ID_MAP_STORE, { keyPath: "tempId" });
+        idMap.createIndex("syncedAt", "syncedAt");
+      }
+      if (!db.objectStoreNames.contains(REFERENCE_STORE)) {
+        db.createObjectStore(REFERENCE_STORE, { keyPath: "dataset" });
+      }
+      if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+        db.createObjectStore(RECORDS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(CURSOR_STORE)) {
+        db.createObjectStore(CURSOR_STORE, { keyPath: "dataset" });
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: "key" });
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: "seq", autoIncrement: true });
+        outbox.createIndex("recordId", "recordId");
+      }
+
+      // v4 -> v5: fotos da fila passam de File[] + contador de enviadas para uma entrada por foto
+      if (oldVersion >= 1 && oldVersion < 5) {
+        migrateLegacyPhotos(transaction.objectStore(STORE_NAME));
+      }
     },
   });
 }
 
-export async function addPendingRecord(record: any) {
+// Traz os mapeamentos que a versão antiga deixou no localStorage. Roda pela página, uma vez: no upgrade
+// não dá, porque o service worker (sem localStorage) pode ser o primeiro a abrir o banco na versão nova.
+export async function migrateLegacyIdMappings() {
+  if (typeof localStorage === "undefined" || localStorage.getItem(LEGACY_SYNC_MAP_MIGRATED_KEY)) return;
+  const keys = Object.keys(localStorage).filter(key => key.startsWith(LEGACY_SYNC_MAP_PREFIX));
+  if (keys.length > 0) {
+    const db = await getDB();
+    const tx = db.transaction(ID_MAP_STORE, "readwrite");
+    keys.forEach(key => {
+      const serverId = localStorage.getItem(key);
+      if (serverId) {
+        tx.store.put({ tempId: key.slice(LEGACY_SYNC_MAP_PREFIX.length), serverId, syncedAt: Date.now() } as IdMapping);
+      }
+    });
+    await tx.done;
+    keys.forEach(key => localStorage.removeItem(key));
+  }
+  localStorage.setItem(LEGACY_SYNC_MAP_MIGRATED_KEY, "1");
+}
+
+// Envolve arquivos novos em entradas da fila (as primeiras uploadedCount já contam como enviadas).
+// metadata[i] acompanha files[i] até o upload.
+export function toPendingPhotos(files: File[] = [], uploadedCount = 0, metadata: PhotoMetadata[] = []): PendingPhoto[] {
+  return files.map((file, index) => ({ id: crypto.randomUUID(), file, uploaded: index < uploadedCount, metadata: metadata[index] }));
+}
+
+export function sumPhotoBytes(photos: PendingPhoto[] = []) {
+  return photos.reduce((total, photo) => total + (photo.file?.size || 0), 0);
+}
+
+// Registros enfileirados antes da contabilidade de bytes não têm queuedBytes
+export function getQueuedBytes(record: PendingRecord) {
+  return record.queuedBytes ?? sumPhotoBytes(record.photosBefore) + sumPhotoBytes(record.photosAfter);
+}
+
+async function migrateLegacyPhotos(store: any) {
+  let cursor = await store.openCursor();
+  while (cursor) {
+    const { uploadedBefore, uploadedAfter, ...record } = cursor.value;
+    if (record.photosBefore?.[0] instanceof Blob || record.photosAfter?.[0] instanceof Blob) {
+      await cursor.update({
+        ...record,
+        photosBefore: toPendingPhotos(record.photosBefore, uploadedBefore),
+        photosAfter: toPendingPhotos(record.photosAfter, uploadedAfter),
+      });
+    }
+    cursor = await cursor.continue();
+  }
+}
+
+export async function addPendingRecord(record: PendingRecord) {
   const db = await getDB();
   await db.put(STORE_NAME, record);
 }
 
-export async function getPendingRecords() {
+export async function getPendingRecords(): Promise<PendingRecord[]> {
   const db = await getDB();
   return db.getAll(STORE_NAME);
 }
 
+export async function getPendingRecord(id: string): Promise<PendingRecord | undefined> {
+  const db = await getDB();
+  return db.get(STORE_NAME, id);
+}
+
+// Relê o registro dentro da transação para não sobrescrever fotos anexadas enquanto a sync rodava
+export async function updatePendingRecord(
+  id: string,
+  changes: Partial<PendingRecord> | ((current: PendingRecord) => Partial<PendingRecord>)
+) {
+  const db = await getDB();
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  const current = await tx.store.get(id);
+  if (current) {
+    const patch = typeof changes === "function" ? changes(current) : changes;
+    await tx.store.put({ ...current, ...patch });
+  }
+  await tx.done;
+}
+
 export async function deletePendingRecord(id: string) {
   const db = await getDB();
   await db.delete(STORE_NAME, id);
 }
+
+export async function addOutboxMutation(mutation: OutboxMutation) {
+  const db = await getDB();
+  await db.add(OUTBOX_STORE, mutation);
+}
+
+// Sempre na ordem em que as alterações foram feitas
+export async function getOutboxMutations(): Promise<OutboxMutation[]> {
+  const db = await getDB();
+  return db.getAll(OUTBOX_STORE);
+}
+
+export async function countOutboxMutations(recordId?: string) {
+  const db = await getDB();
+  return recordId ? db.countFromIndex(OUTBOX_STORE, "recordId", recordId) : db.count(OUTBOX_STORE);
+}
+
+export async function updateOutboxMutation(seq: number, changes: Partial<OutboxMutation>) {
+  const db = await getDB();
+  const tx = db.transaction(OUTBOX_STORE, "readwrite");
+  const current = await tx.store.get(seq);
+  if (current) {
+    await tx.store.put({ ...current, ...changes, seq });
+  }
+  await tx.done;
+}
+
+export async function deleteOutboxMutation(seq: number) {
+  const db = await getDB();
+  await db.delete(OUTBOX_STORE, seq);
+}
+
+export async function saveIdMapping(tempId: string, serverId: string) {
+  const db = await getDB();
+  await db.put(ID_MAP_STORE, { tempId, serverId, syncedAt: Date.now() } as IdMapping);
+}
+
+export async function getServerId(tempId: string): Promise<string | undefined> {
+  const db = await getDB();
+  const mapping: IdMapping | undefined = await db.get(ID_MAP_STORE, tempId);
+  return mapping?.serverId;
+}
+
+// Apaga mapeamentos mais antigos que o período de retenção, preservando os de registros ainda na fila
+export async function pruneIdMappings(maxAgeMs: number, keepTempIds: Set<string> = new Set()) {
+  const db = await getDB();
+  const tx = db.transaction(ID_MAP_STORE, "readwrite");
+  let cursor = await tx.store.index("syncedAt").openCursor(IDBKeyRange.upperBound(Date.now() - maxAgeMs));
+  while (cursor) {
+    if (!keepTempIds.has(cursor.value.tempId)) {
+      await cursor.delete();
+    }
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+}
+
+export async function getCachedDataset<T = any>(dataset: ReferenceDataset): Promise<CachedDataset<T> | undefined> {
+  const db = await getDB();
+  return db.get(REFERENCE_STORE, dataset);
+}
+
+export async function putCachedDataset<T = any>(dataset: ReferenceDataset, items: T[]) {
+  const db = await getDB();
+  await db.put(REFERENCE_STORE, { dataset, items, updatedAt: Date.now() } as CachedDataset<T>);
+}
+
+export async function clearCachedDatasets() {
+  const db = await getDB();
+  await db.clear(REFERENCE_STORE);
+}
+
+export async function getLocalRecords() {
+  const db = await getDB();
+  return db.getAll(RECORDS_STORE);
+}
+
+// Aplica um lote de alterações (upserts + exclusões) numa única transação
+export async function applyRecordChanges(changed: any[], deletedIds: string[] = []) {
+  const db = await getDB();
+  const tx = db.transaction(RECORDS_STORE, "readwrite");
+  await Promise.all([
+    ...changed.map(record => tx.store.put(record)),
+    ...deletedIds.map(id => tx.store.delete(String(id))),
+  ]);
+  await tx.done;
+}
+
+// Substitui a cópia local inteira (carga completa, sem cursor)
+export async function replaceLocalRecords(records: any[]) {
+  const db = await getDB();
+  const tx = db.transaction(RECORDS_STORE, "readwrite");
+  await tx.store.clear();
+  await Promise.all(records.map(record => tx.store.put(record)));
+  await tx.done;
+}
+
+export async function getSyncCursor(dataset: string): Promise<string | undefined> {
+  const db = await getDB();
+  const entry: SyncCursor | undefined = await db.get(CURSOR_STORE, dataset);
+  return entry?.cursor;
+}
+
+export async function setSyncCursor(dataset: string, cursor: string) {
+  const db = await getDB();
+  await db.put(CURSOR_STORE, { dataset, cursor, updatedAt: Date.now() } as SyncCursor);
+}
+
+export async function clearLocalRecords() {
+  const db = await getDB();
+  const tx = db.transaction([RECORDS_STORE, CURSOR_STORE], "readwrite");
+  await Promise.all([tx.objectStore(RECORDS_STORE).clear(), tx.objectStore(CURSOR_STORE).clear()]);
+  await tx.done;
+}
+
+async function putSessionValue(key: string, value: string | null) {
+  const db = await getDB();
+  if (value) {
+    await db.put(SESSION_STORE, { key, value });
+  } else {
+    await db.delete(SESSION_STORE, key);
+  }
+}
+
+async function getSessionValue(key: string): Promise<string | null> {
+  const db = await getDB();
+  const entry = await db.get(SESSION_STORE, key);
+  return entry?.value ?? null;
+}
+
+// Cópia do token JWT para o service worker, que não enxerga o localStorage
+export async function saveSessionToken(token: string | null) {
+  await putSessionValue("apiToken", token);
+}
+
+export async function getSessionToken(): Promise<string | null> {
+  return getSessionValue("apiToken");
+}
+
+// Refresh token: renova o JWT sem pedir a senha de novo (página e service worker)
+export async function saveRefreshToken(token: string | null) {
+  await putSessionValue("refreshToken", token);
+}
+
+export async function getRefreshToken(): Promise<string | null> {
+  return getSessionValue("refreshToken");
+}
@@ -0,0 +1,115 @@
+// src/errorMessages.ts
+// Traduz erros da API (ApiError) em mensagens para o usuário e em erros por campo de formulário.
+import { ApiError, RequestTimeoutError } from "./api";
+
+// Mensagens por código de erro do servidor
+const CODE_MESSAGES: Record<string, string> = {
+  EMAIL_ALREADY_EXISTS: "Já existe um usuário com este e-mail.",
+  DUPLICATE_NAME: "Já existe um cadastro com este nome.",
+  LOCATION_ALREADY_EXISTS: "Já existe um local com este nome neste Contrato/Cidade.",
+  GOAL_ALREADY_EXISTS: "Já existe uma meta para este contrato, serviço e mês.",
+  UNIT_IN_USE: "Esta unidade está em uso por um ou mais serviços e não pode ser excluída.",
+  SERVICE_IN_USE: "Este serviço está em uso em locais ou registros e não pode ser excluído.",
+  LOCATION_HAS_RECORDS: "Este local possui registros de serviço e não pode ser excluído.",
+  INVALID_PASSWORD: "Senha incorreta.",
+  INVALID_CREDENTIALS: "E-mail ou senha incorretos.",
+};
+
+// Mensagem padrão por status HTTP, quando o servidor não manda um código conhecido
+const STATUS_MESSAGES: Record<number, string> = {
+  400: "Alguns dados enviados são inválidos. Confira o formulário.",
+  401: "Sua sessão expirou. Entre novamente.",
+  403: "Você não tem permissão para esta ação.",
+  404: "O item não foi encontrado. Ele pode ter sido excluído por outra pessoa.",
+  409: "Já existe um cadastro com estes dados.",
+  413: "Os arquivos enviados são grandes demais.",
+  422: "Alguns dados enviados são inválidos. Confira o formulário.",
+  429: "Muitas tentativas em pouco tempo. Aguarde um instante e tente novamente.",
+};
+
+const SERVER_ERROR_MESSAGE = "O servidor encontrou um erro. Tente novamente em instantes.";
+const NETWORK_ERROR_MESSAGE = "Sem conexão com o servidor. Verifique a internet e tente novamente.";
+const TIMEOUT_MESSAGE = "A conexão está lenta e o servidor não respondeu a tempo. Tente novamente.";
+
+// fetch() rejeita com TypeError quando não há rede (diferente de uma resposta de erro do servidor).
+// Timeout conta como falta de rede: a tela segue com o cache/fila do mesmo jeito.
+export const isNetworkError = (error: unknown) =>
+  error instanceof TypeError || error instanceof RequestTimeoutError || !navigator.onLine;
+
+// Mensagens específicas de uma tela, por código ou status (ex.: { 409: "Já existe um usuário com este e-mail." })
+export type ErrorMessageOverrides = Record<string | number, string>;
+
+// Mensagem em português para exibir ao usuário. O ID da requisição vai junto para o suporte achar o erro nos logs.
+export function describeApiError(error: unknown, fallback: string, overrides: ErrorMessageOverrides = {}) {
+  if (!(error instanceof ApiError)) {
+    if (error instanceof RequestTimeoutError) return TIMEOUT_MESSAGE;
+    return isNetworkError(error) ? NETWORK_ERROR_MESSAGE : fallback;
+  }
+
+  let message =
+    (error.code && (overrides[error.code] || CODE_MESSAGES[error.code])) ||
+    overrides[error.status] ||
+    (error.status >= 500 ? SERVER_ERROR_MESSAGE : STATUS_MESSAGES[error.status]) ||
+    fallback;
+
+  // Validação: a mensagem genérica só orienta; os detalhes aparecem em cada campo
+  if ((error.status === 400 || error.status === 422) && Object.keys(error.fieldErrors).length > 0) {
+    message = "Corrija os campos destacados e tente novamente.";
+  }
+
+  return error.requestId ? `${message} (código do erro: ${error.requestId})` : message;
+}
+
+// Restrições do class-validator mais usadas pelo backend -> mensagem em português para o campo
+const CONSTRAINT_MESSAGES: [RegExp, (match: RegExpMatchArray) => string][] = [
+  [/should not be empty|must not be empty/, () => "Campo obrigatório."],
+  [/must be an email/, () => "Informe um e-mail válido."],
+  [/must be longer than or equal to (\d+) characters/, m => `Use pelo menos ${m[1]} caracteres.`],
+  [/must be shorter than or equal to (\d+) characters/, m => `Use no máximo ${m[1]} caracteres.`],
+  [/must not be less than (-?[\d.]+)/, m => `O valor mínimo é ${m[1]}.`],
+  [/must not be greater than (-?[\d.]+)/, m => `O valor máximo é ${m[1]}.`],
+  [/must be a positive number/, () => "Informe um número maior que zero."],
+  [/must be an integer number|must be a number/, () => "Informe um número válido."],
+  [/must be a valid ISO 8601 date string|must be a Date instance/, () => "Informe uma data válida."],
+  [/must be one of the following values|must be a valid enum value/, () => "Escolha uma das opções disponíveis."],
+  [/must be an array/, () => "Selecione ao menos um item válido."],
+  [/already exists/, () => "Já existe um cadastro com este valor."],
+];
+
+const GENERIC_FIELD_MESSAGE = "Valor inválido. Confira este campo.";
+
+// Mensagens do class-validator começam pelo nome da propriedade (em inglês): viram texto em português.
+// As que o backend monta no formato { errors } já vêm prontas para o usuário.
+function translateFieldMessage(path: string, message: string) {
+  if (!message.startsWith(`${path} `)) return message;
+  for (const [pattern, build] of CONSTRAINT_MESSAGES) {
+    const match = message.match(pattern);
+    if (match) return build(match);
+  }
+  return GENERIC_FIELD_MESSAGE;
+}
+
+// Erros por campo. Campos aninhados (ex.: "services.0.measurement") aparecem no campo do formulário ("services").
+// Os nomes do payload são os mesmos dos campos nos formulários de cadastro.
+export function getFieldErrors(error: unknown) {
+  const fields: Record<string, string> = {};
+  if (error instanceof ApiError) {
+    Object.entries(error.fieldErrors).forEach(([path, message]) => {
+      const field = path.split(".")[0];
+      if (!fields[field]) fields[field] = translateFieldMessage(path, message);
+    });
+  }
+  return fields;
+}
+
+// Estado de erro dos formulários de cadastro: mensagem geral + mensagens por campo
+export interface FormErrors {
+  message: string;
+  fields: Record<string, string>;
+}
+
+export const NO_FORM_ERRORS: FormErrors = { message: "", fields: {} };
+
+export function toFormErrors(error: unknown, fallback: string, overrides?: ErrorMessageOverrides): FormErrors {
+  return { message: describeApiError(error, fallback, overrides), fields: getFieldErrors(error) };
+}
@@ -0,0 +1,99 @@
+// src/geofence.ts
+// Conferência do local do serviço: a posição do aparelho nas fotos "Antes" e "Depois" é comparada
+// com as coordenadas cadastradas do local, dentro do raio configurado para o contrato (ManageCyclesView).
+import type { ContractConfig, GeofenceStatus, GeolocationCoords, PositionCheck } from "./types";
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 200;
+// Leitura com precisão pior que isso não confirma nem desmente a presença no local
+const MAX_USABLE_ACCURACY_METERS = 500;
+const POSITION_TIMEOUT_MS = 15000;
+// Aproveita a leitura recente da tela de locais (watchPosition) em vez de esperar um novo sinal
+const POSITION_MAX_AGE_MS = 30000;
+
+export const GEOFENCE_LABELS: Record<GeofenceStatus, string> = {
+  inside: "Dentro do local",
+  outside: "Fora do local",
+  unverified: "Não verificado",
+};
+
+// Distância em metros entre dois pontos (fórmula de haversine)
+export const calculateDistance = (p1: GeolocationCoords, p2: GeolocationCoords) => {
+  if (!p1 || !p2) return Infinity;
+  const R = 6371e3;
+  const φ1 = (p1.latitude * Math.PI) / 180;
+  const φ2 = (p2.latitude * Math.PI) / 180;
+  const Δφ = ((p2.latitude - p1.latitude) * Math.PI) / 180;
+  const Δλ = ((p2.longitude - p1.longitude) * Math.PI) / 180;
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+};
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1).replace(".", ",")} km`;
+
+export function geofenceRadiusFor(contractGroup: string | undefined, configs: ContractConfig[]) {
+  return configs.find(c => c.contractGroup === contractGroup)?.geofenceRadius || DEFAULT_GEOFENCE_RADIUS_METERS;
+}
+
+// Posição atual do aparelho; null sem permissão, sem sinal ou sem resposta no prazo
+function getCurrentPosition(): Promise<GeolocationPosition | null> {
+  return new Promise(resolve => {
+    if (!("geolocation" in navigator)) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, err => {
+      console.warn("Falha ao obter a posição para a conferência do local:", err.message);
+      resolve(null);
+    }, { enableHighAccuracy: true, timeout: POSITION_TIMEOUT_MS, maximumAge: POSITION_MAX_AGE_MS });
+  });
+}
+
+// Compara uma leitura com o local. A margem de erro do GPS conta a favor do operador:
+// só fica "fora" quando nem o ponto mais próximo do círculo de precisão cai dentro do raio.
+export function checkPosition(
+  position: GeolocationPosition | null,
+  locationCoords: GeolocationCoords | undefined,
+  radius: number
+): PositionCheck {
+  if (!position) return { capturedAt: new Date().toISOString(), status: "unverified" };
+
+  const { latitude, longitude, accuracy } = position.coords;
+  const check: PositionCheck = {
+    latitude,
+    longitude,
+    accuracy: Math.round(accuracy),
+    capturedAt: new Date(position.timestamp).toISOString(),
+    status: "unverified",
+  };
+  if (!locationCoords) return check;
+
+  check.distance = Math.round(calculateDistance({ latitude, longitude }, locationCoords));
+  if (accuracy > MAX_USABLE_ACCURACY_METERS) return check;
+  check.status = check.distance - accuracy > radius ? "outside" : "inside";
+  return check;
+}
+
+// Captura a posição numa etapa de fotos e já confere com o local
+export async function verifyPosition(locationCoords: GeolocationCoords | undefined, radius: number) {
+  return checkPosition(await getCurrentPosition(), locationCoords, radius);
+}
+
+// Resultado do registro: fora se alguma etapa ficou fora; dentro só se todas as etapas conferidas ficaram dentro
+export function combineGeofence(checks: (PositionCheck | undefined)[]): GeofenceStatus {
+  const present = checks.filter((check): check is PositionCheck => !!check);
+  if (present.some(check => check.status === "outside")) return "outside";
+  if (present.length > 0 && present.every(check => check.status === "inside")) return "inside";
+  return "unverified";
+}
+
+// Texto de uma etapa para o detalhe do registro e os relatórios
+export function describePositionCheck(check: PositionCheck | undefined) {
+  if (!check) return "Não registrada";
+  if (check.latitude === undefined) return "Sem sinal de GPS";
+  const accuracy = check.accuracy !== undefined ? ` (±${check.accuracy} m)` : "";
+  if (check.distance === undefined) return `Local sem coordenadas cadastradas${accuracy}`;
+  if (check.status === "unverified") return `Precisão do GPS insuficiente${accuracy}`;
+  return `${formatDistance(check.distance)} do local${accuracy}`;
+}
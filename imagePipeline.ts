@@ -0,0 +1,171 @@
+// src/imagePipeline.ts
+
+// Pipeline de imagem aplicado antes das fotos entrarem na fila: redimensiona, recomprime
+// e corrige a orientação EXIF. Roda num Web Worker (OffscreenCanvas) quando o navegador suporta.
+
+export interface ImagePipelineConfig {
+  maxDimension: number;
+  quality: number;
+  mimeType: "image/jpeg" | "image/webp";
+}
+
+// 🔧 Ajustável por build via .env (VITE_PHOTO_MAX_DIMENSION, VITE_PHOTO_QUALITY, VITE_PHOTO_FORMAT)
+const env = (import.meta as any).env || {};
+
+export const imagePipelineConfig: ImagePipelineConfig = {
+  maxDimension: Number(env.VITE_PHOTO_MAX_DIMENSION) || 1600,
+  quality: Number(env.VITE_PHOTO_QUALITY) || 0.8,
+  mimeType: env.VITE_PHOTO_FORMAT === "webp" ? "image/webp" : "image/jpeg",
+};
+
+export interface ImageJob {
+  id: number;
+  source: Blob;
+  config: ImagePipelineConfig;
+}
+
+export interface ImageJobResult {
+  id: number;
+  blob?: Blob;
+  error?: string;
+}
+
+// Compartilhado com o worker: a mesma função roda lá e no fallback da thread principal
+export async function resizeAndEncode(source: Blob, config: ImagePipelineConfig): Promise<Blob> {
+  // imageOrientation "from-image" aplica a rotação do EXIF antes de desenhar
+  const bitmap = await createImageBitmap(source, { imageOrientation: "from-image" });
+  const scale = Math.min(1, config.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  try {
+    if (typeof OffscreenCanvas !== "undefined") {
+      const canvas = new OffscreenCanvas(width, height);
+      canvas.getContext("2d")!.drawImage(bitmap, 0, 0, width, height);
+      return await canvas.convertToBlob({ type: config.mimeType, quality: config.quality });
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")!.drawImage(bitmap, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Falha ao codificar imagem"))), config.mimeType, config.quality);
+    });
+  } finally {
+    bitmap.close();
+  }
+}
+
+let worker: Worker | null = null;
+let nextJobId = 0;
+const pendingJobs = new Map<number, { resolve: (blob: Blob) => void; reject: (err: Error) => void }>();
+
+function getWorker() {
+  if (worker || typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") return worker;
+  try {
+    worker = new Worker(new URL("./imageWorker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<ImageJobResult>) => {
+      const { id, blob, error } = event.data;
+      const job = pendingJobs.get(id);
+      if (!job) return;
+      pendingJobs.delete(id);
+      if (blob) job.resolve(blob);
+      else job.reject(new Error(error || "Falha ao processar imagem"));
+    };
+    worker.onerror = (event) => {
+      console.warn("Worker de imagem falhou, processando na thread principal:", event.message);
+      pendingJobs.forEach(job => job.reject(new Error(event.message)));
+      pendingJobs.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  } catch (err) {
+    console.warn("Não foi possível iniciar o worker de imagem:", err);
+    worker = null;
+  }
+  return worker;
+}
+
+function runInWorker(activeWorker: Worker, source: Blob, config: ImagePipelineConfig) {
+  const id = ++nextJobId;
+  return new Promise<Blob>((resolve, reject) => {
+    pendingJobs.set(id, { resolve, reject });
+    activeWorker.postMessage({ id, source, config } as ImageJob);
+  });
+}
+
+// Processa uma foto (câmera ou galeria). Em caso de erro, devolve o original para não perder a foto.
+export async function processImage(source: Blob, config: ImagePipelineConfig = imagePipelineConfig): Promise<Blob> {
+  let result: Blob | null = null;
+  const activeWorker = getWorker();
+  if (activeWorker) {
+    try {
+      result = await runInWorker(activeWorker, source, config);
+    } catch (err) {
+      console.warn("Falha no worker de imagem, tentando na thread principal:", err);
+    }
+  }
+  if (!result) {
+    try {
+      result = await resizeAndEncode(source, config);
+    } catch (err) {
+      console.warn("Falha ao comprimir imagem, mantendo original:", err);
+      return source;
+    }
+  }
+  // Imagem da galeria já pequena: recomprimir só aumentaria o arquivo. O original só fica se já
+  // couber em maxDimension; senão vai a versão reduzida, mesmo maior em bytes.
+  if (result.size < source.size) return result;
+  return (await fitsMaxDimension(source, config.maxDimension)) ? source : result;
+}
+
+async function fitsMaxDimension(source: Blob, maxDimension: number) {
+  try {
+    const bitmap = await createImageBitmap(source);
+    const fits = Math.max(bitmap.width, bitmap.height) <= maxDimension;
+    bitmap.close();
+    return fits;
+  } catch {
+    return false;
+  }
+}
+
+export function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Marca d'água: faixa escura no rodapé da foto com uma linha de texto por item. Roda na thread principal
+// (depois do processImage, com a foto já no tamanho final) e recodifica com a mesma configuração.
+export async function stampWatermark(source: Blob, lines: string[], config: ImagePipelineConfig = imagePipelineConfig): Promise<Blob> {
+  const bitmap = await createImageBitmap(source, { imageOrientation: "from-image" });
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext("2d")!;
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const fontSize = Math.max(14, Math.round(Math.min(canvas.width, canvas.height) * 0.028));
+  const lineHeight = Math.round(fontSize * 1.3);
+  const padding = Math.round(fontSize * 0.6);
+  const boxHeight = lines.length * lineHeight + padding * 2;
+
+  context.fillStyle = "rgba(0, 0, 0, 0.55)";
+  context.fillRect(0, canvas.height - boxHeight, canvas.width, boxHeight);
+  context.fillStyle = "#fff";
+  context.font = `${fontSize}px sans-serif`;
+  context.textBaseline = "top";
+  lines.forEach((line, index) => {
+    context.fillText(line, padding, canvas.height - boxHeight + padding + index * lineHeight, canvas.width - padding * 2);
+  });
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Falha ao codificar imagem"))), config.mimeType, config.quality);
+  });
+}
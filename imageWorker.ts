@@ -0,0 +1,17 @@
+/// <reference lib="webworker" />
+// src/imageWorker.ts
+
+// Worker do pipeline de imagem: decodifica, redimensiona e recomprime fora da thread da UI
+import { resizeAndEncode, ImageJob, ImageJobResult } from "./imagePipeline";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = async (event: MessageEvent<ImageJob>) => {
+  const { id, source, config } = event.data;
+  try {
+    const blob = await resizeAndEncode(source, config);
+    self.postMessage({ id, blob } as ImageJobResult);
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) } as ImageJobResult);
+  }
+};
@@ -1,15 +1,45 @@
-import { getPendingRecords } from "./db"; // <--- Adicione isto
-import { queueRecord, addAfterPhotosToPending, addBeforePhotosToPending } from "./syncManager";
+import {
+    getPendingRecords, getCachedDataset, putCachedDataset, clearCachedDatasets,
+    getLocalRecords, applyRecordChanges, replaceLocalRecords, getSyncCursor, setSyncCursor, clearLocalRecords, saveSessionToken,
+} from "./db"; // <--- Adicione isto
+import {
+    api, ApiError, API_BASE, getApiToken, setApiToken, onSessionExpired, onConnectionSlow, viewSignal, cancelViewRequests, isAbortError,
+} from "./api";
+import { describeApiError, toFormErrors, isNetworkError, FormErrors, NO_FORM_ERRORS } from "./errorMessages";
+import type {
+    Role, Unit, ServiceDefinition, LocationServiceDetail, UserAssignment, User, GeolocationCoords, LocationRecord, ServiceRecord,
+    Goal, AuditLogEntry, ContractConfig, PhotoMetadata,
+} from "./types";
+import { View, Route, RouteParams, matchRoute, routePath, canAccess, isPublicView, homeView } from "./routes";
+import {
+    calculateDistance, formatDistance, geofenceRadiusFor, verifyPosition, combineGeofence, describePositionCheck,
+    GEOFENCE_LABELS, DEFAULT_GEOFENCE_RADIUS_METERS,
+} from "./geofence";
+import {
+    queueRecord, addAfterPhotosToPending, addBeforePhotosToPending, resolveRecordId, SYNC_STATUS_EVENT,
+    getStorageStatus, StorageStatus, StorageFullError, submitMutation, countPendingWork, isConflictError, versionTag, trySync,
+} from "./syncManager";
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import ExcelJS from 'exceljs';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import logoSrc from './assets/Logo.png';
+// Fontes empacotadas no build (e no precache do service worker) em vez do Google Fonts
+import '@fontsource/roboto/latin-400.css';
+import '@fontsource/roboto/latin-500.css';
+import '@fontsource/roboto/latin-700.css';
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, LineElement, PointElement, Title, Tooltip, Legend } from 'chart.js';
 import { Bar, Line } from 'react-chartjs-2';
 import ResetPasswordView from './ResetPasswordView';
 import ForgotPasswordView from './ForgotPasswordView';
+import SyncStatusView from './SyncStatusView';
+import QueueImportView from './QueueImportView';
+import ConflictResolutionView from './ConflictResolutionView';
+import { processImage } from './imagePipeline';
+import {
+    buildPhotoMetadata, describePhotoMetadata, stampPhoto, metadataForUpload, getFlaggedPhotos, isFlaggedForReview, PhotoContext, StampedPhoto,
+} from './photoEvidence';
 
 ChartJS.register( CategoryScale, LinearScale, BarElement, LineElement, PointElement, Title, Tooltip, Legend );
 
@@ -23,31 +53,6 @@ const normalizeString = (str: string | null | undefined) => {
     return String(str).normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
 };
 
-const API_BASE = (import.meta as any).env?.VITE_API_BASE || '';
-let API_TOKEN: string | null = localStorage.getItem('crbApiToken');
-
-const setApiToken = (token: string | null) => {
-    API_TOKEN = token;
-    if (token) { localStorage.setItem('crbApiToken', token); }
-    else { localStorage.removeItem('crbApiToken'); }
-};
-
-const apiFetch = async (path: string, options: RequestInit = {}) => {
-    const headers = new Headers(options.headers || {});
-    if (API_TOKEN) { headers.append('Authorization', `Bearer ${API_TOKEN}`); }
-    if (!(options.body instanceof FormData)) { headers.append('Content-Type', 'application/json'); }
-    const response = await fetch(`${API_BASE}${path}`, { ...options, headers });
-    if (!response.ok) {
-        let errorBody;
-        try { errorBody = await response.json(); }
-        catch (e) { errorBody = await response.text(); }
-        console.error("API Error:", errorBody);
-        throw new Error(`API request failed with status ${response.status}`);
-    }
-    if (response.status === 204 || response.headers.get('content-length') === '0') { return null; }
-    return response.json();
-};
-
 const dataURLtoFile = (dataurl: string, filename: string): File => {
     const arr = dataurl.split(','), mimeMatch = arr[0].match(/:(.*?);/);
     if (!mimeMatch) throw new Error("Invalid data URL");
@@ -57,62 +62,42 @@ const dataURLtoFile = (dataurl: string, filename: string): File => {
     return new File([u8arr], filename, { type: mime });
 };
 
-type Role = 'ADMIN' | 'OPERATOR' | 'FISCAL';
-type View =
-    | 'LOGIN'
-    | 'RESET_PASSWORD'
-    | 'FORGOT_PASSWORD'
-    | 'ADMIN_DASHBOARD'
-    | 'ADMIN_MANAGE_SERVICES'
-    | 'ADMIN_MANAGE_LOCATIONS'
-    | 'ADMIN_MANAGE_USERS'
-    | 'ADMIN_MANAGE_GOALS'
-    | 'ADMIN_MANAGE_CYCLES'
-    | 'ADMIN_EDIT_RECORD'
-    | 'AUDIT_LOG'
-    | 'FISCAL_DASHBOARD'
-    | 'REPORTS'
-    | 'HISTORY'
-    | 'DETAIL'
-    | 'OPERATOR_GROUP_SELECT'
-    | 'OPERATOR_LOCATION_SELECT'
-    | 'OPERATOR_SERVICE_SELECT'
-    | 'PHOTO_STEP'
-    | 'OPERATOR_SERVICE_IN_PROGRESS'
-    | 'CONFIRM_STEP';
-
-interface Unit { id: string; name: string; symbol: string;}
-interface ServiceDefinition { id: string; name: string; unit: Unit; unitId: number;}
-interface LocationServiceDetail { serviceId: string; name: string; measurement: number; unit: Unit;}
 // Nova interface para facilitar a lógica de medição (Correção 3)
 interface LocationRecordServiceMap { [locationId: string]: { [serviceId: string]: number; }; } 
 
-interface UserAssignment { contractGroup: string; serviceNames: string[]; }
-interface User { id: string; username: string; email?: string; password?: string; role: Role; assignments?: UserAssignment[]; }
-interface GeolocationCoords { latitude: number; longitude: number; }
-interface LocationRecord { id: string; contractGroup: string; name: string; observations?: string; coords?: GeolocationCoords; services?: LocationServiceDetail[]; parentId?: string | null; isGroup?: boolean; }
-interface ServiceRecord {
-    id: string; operatorId: string; operatorName: string; serviceType: string; serviceUnit: string;
-    locationId?: string; locationName: string; contractGroup: string; locationArea?: number;
-    gpsUsed: boolean; startTime: string; endTime: string; beforePhotos: string[]; afterPhotos: string[];
-    tempId?: string; coords?: GeolocationCoords;
-    observations?: string;
-    overrideMeasurement?: number;
-    serviceId?: number;
-    serviceOrderNumber?: string;
-}
-interface Goal {
-  id: string;
-  contractGroup: string;
-  month: string;
-  targetArea: number;
-  serviceId: number;
-}
-interface AuditLogEntry { id: string; timestamp: string; adminId: string; adminUsername: string; action: 'UPDATE' | 'DELETE' | 'ADJUST_MEASUREMENT'; recordId: string; details: string; }
-interface ContractConfig { id: number; contractGroup: string; cycleStartDay: number; }
-
 const formatDateTime = (isoString: string) => new Date(isoString).toLocaleString('pt-BR');
 
+// Operador vê só os próprios registros; fiscal, os dos seus contratos; admin, todos
+const filterRecordsForUser = (records: ServiceRecord[], user: User) => {
+    if (user.role === 'ADMIN') return records;
+    if (user.role === 'OPERATOR') return records.filter(r => String(r.operatorId) === String(user.id));
+    const fiscalGroups = new Set(user.assignments?.map(a => a.contractGroup) || []);
+    return records.filter(r => fiscalGroups.has(r.contractGroup));
+};
+
+const RECORDS_DATASET = 'records';
+
+/**
+ * Sincronização incremental dos registros de serviço.
+ * GET /api/records/changes?since=<cursor> devolve { records, deleted, cursor }: só o que mudou
+ * desde o cursor, incluindo os IDs excluídos. Sem cursor, o servidor devolve tudo (carga inicial).
+ * O resultado é mesclado na cópia local do IndexedDB, que passa a ser a fonte da tela.
+ */
+const syncRecordsDelta = async (): Promise<ServiceRecord[]> => {
+    const cursor = await getSyncCursor(RECORDS_DATASET);
+    try {
+        const delta = await api.records.changes(cursor);
+        if (cursor) await applyRecordChanges(delta.records, delta.deleted);
+        else await replaceLocalRecords(delta.records);
+        if (delta.cursor) await setSyncCursor(RECORDS_DATASET, delta.cursor);
+    } catch (error) {
+        // Servidor sem o endpoint incremental: volta para a carga completa
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+        await replaceLocalRecords(await api.records.list());
+    }
+    return getLocalRecords();
+};
+
 /**
  * IMPORTANT: HTML <input type="date" /> returns a "YYYY-MM-DD" string.
  * In JS, `new Date("YYYY-MM-DD")` is parsed as UTC and can shift the day in Brazil (-03:00).
@@ -140,15 +125,6 @@ const getPeriodTag = (startDate: string, endDate: string) => {
   return `todas_datas`;
 };
 
-const calculateDistance = (p1: GeolocationCoords, p2: GeolocationCoords) => {
-    if (!p1 || !p2) return Infinity;
-    const R = 6371e3;
-    const φ1 = p1.latitude * Math.PI / 180; const φ2 = p2.latitude * Math.PI / 180;
-    const Δφ = (p2.latitude - p1.latitude) * Math.PI / 180; const Δλ = (p2.longitude - p1.longitude) * Math.PI / 180;
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-};
 const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] => {
     const [storedValue, setStoredValue] = useState<T>(() => {
         try { const item = window.localStorage.getItem(key); return item ? JSON.parse(item) : initialValue; }
@@ -187,6 +163,15 @@ const Pagination: React.FC<{ currentPage: number; totalPages: number; onPageChan
     );
 };
 
+// Mensagem de validação do servidor logo abaixo do campo correspondente
+const FieldError: React.FC<{ message?: string }> = ({ message }) => (
+    message ? <p className="field-error">{message}</p> : null
+);
+
+const FormErrorMessage: React.FC<{ errors: FormErrors }> = ({ errors }) => (
+    errors.message ? <p className="text-danger form-error" role="alert">{errors.message}</p> : null
+);
+
 const SearchBar: React.FC<{ value: string; onChange: (val: string) => void; placeholder?: string }> = ({ value, onChange, placeholder = "Buscar..." }) => (
     <div style={{ position: 'relative', marginBottom: '1rem' }}>
         <input
@@ -203,7 +188,7 @@ const SearchBar: React.FC<{ value: string; onChange: (val: string) => void; plac
 );
 
 // Componente para visualização de imagem em tela cheia (Correção 1)
-const ImageViewer: React.FC<{ src: string; onClose: () => void }> = ({ src, onClose }) => {
+const ImageViewer: React.FC<{ src: string; onClose: () => void; actions?: React.ReactNode }> = ({ src, onClose, actions }) => {
     if (!src) return null;
     
     return (
@@ -246,6 +231,8 @@ const ImageViewer: React.FC<{ src: string; onClose: () => void }> = ({ src, onCl
                     cursor: 'pointer' 
                 }}
             >&times;</button>
+            {/* Ações da foto (ex.: excluir/refazer na captura), sem fechar o visualizador ao tocar */}
+            {actions && <div className="image-viewer-actions" onClick={e => e.stopPropagation()}>{actions}</div>}
         </div>
     );
 };
@@ -253,12 +240,13 @@ const ImageViewer: React.FC<{ src: string; onClose: () => void }> = ({ src, onCl
 
 // --- Componentes ---
 
-const Header: React.FC<{ view: View; currentUser: User | null; onBack?: () => void; onLogout: () => void; }> = ({ view, currentUser, onBack, onLogout }) => {
+const Header: React.FC<{ view: View; currentUser: User | null; onBack?: () => void; onLogout: () => void; pendingSyncCount?: number; onOpenSyncStatus?: () => void; }> = ({ view, currentUser, onBack, onLogout, pendingSyncCount = 0, onOpenSyncStatus }) => {
     const isAdmin = currentUser?.role === 'ADMIN';
     const showBackButton = onBack && view !== 'LOGIN' && view !== 'ADMIN_DASHBOARD' && view !== 'FISCAL_DASHBOARD' && view !== 'OPERATOR_GROUP_SELECT';
     
     const getTitle = () => {
         if (!currentUser) return 'CRB SERVIÇOS';
+        if (view === 'SYNC_STATUS') return 'Sincronização';
         if (isAdmin) {
             switch(view) {
                 case 'ADMIN_DASHBOARD': return 'Painel do Administrador';
@@ -272,6 +260,7 @@ const Header: React.FC<{ view: View; currentUser: User | null; onBack?: () => vo
                 case 'DETAIL': return 'Detalhes do Serviço';
                 case 'ADMIN_EDIT_RECORD': return 'Editar Registro de Serviço';
                 case 'AUDIT_LOG': return 'Log de Auditoria';
+                case 'ADMIN_IMPORT_QUEUE': return 'Importar Pendências';
                 default: return 'Modo Administrador';
             }
         }
@@ -302,13 +291,22 @@ const Header: React.FC<{ view: View; currentUser: User | null; onBack?: () => vo
                 {view === 'LOGIN' && <img src={logoSrc} alt="Logo CRB Serviços" className="header-logo" />}
                 <h1>{getTitle()}</h1>
             </div>
+            {currentUser && onOpenSyncStatus && view !== 'SYNC_STATUS' && (
+                <button
+                    className={`button button-sm header-sync-button ${pendingSyncCount > 0 ? 'has-pending' : ''}`}
+                    onClick={onOpenSyncStatus}
+                    title="Status da sincronização"
+                >
+                    {pendingSyncCount > 0 ? `⏳ ${pendingSyncCount}` : '✅'}
+                </button>
+            )}
         </header>
     );
 };
 
 const Loader: React.FC<{ text?: string }> = ({ text = "Carregando..." }) => ( <div className="loader-container"><div className="spinner"></div><p>{text}</p></div> );
 
-const CameraView: React.FC<{ onCapture: (dataUrl: string) => void; onCancel: () => void; onFinish: () => void; photoCount: number }> = ({ onCapture, onCancel, onFinish, photoCount }) => {
+const CameraView: React.FC<{ onCapture: (photo: Blob) => void | Promise<void>; onCancel: () => void; onFinish: () => void; photoCount: number }> = ({ onCapture, onCancel, onFinish, photoCount }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const cameraViewRef = useRef<HTMLDivElement>(null);
     useEffect(() => {
@@ -357,7 +355,16 @@ const CameraView: React.FC<{ onCapture: (dataUrl: string) => void; onCancel: ()
             canvas.width = video.videoWidth;
             canvas.height = video.videoHeight;
             canvas.getContext('2d')?.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-            onCapture(canvas.toDataURL('image/jpeg'));
+            // Quadro em resolução cheia vai para o pipeline (redimensiona/comprime no worker)
+            canvas.toBlob(async (blob) => {
+                try {
+                    if (!blob) throw new Error("Quadro da câmera vazio");
+                    await onCapture(await processImage(blob));
+                } catch (err) {
+                    console.error("Falha ao processar a foto tirada:", err);
+                    alert("Não foi possível salvar a foto. Tente tirar novamente.");
+                }
+            }, 'image/jpeg', 0.95);
         }
     };
     return (
@@ -387,20 +394,9 @@ const Login: React.FC<{
     setMessage('');
     setIsLoading(true);
     try {
-      const { access_token } = await apiFetch('/api/auth/login', {
-        method: 'POST',
-        body: JSON.stringify({ email, password })
-      });
-      setApiToken(access_token);
-      const me = await apiFetch('/api/auth/me');
-      const user: User = {
-        id: String(me.id),
-        username: me.name || me.email,
-        email: me.email,
-        role: me.role,
-        assignments: me.assignments || []
-      };
-      onLogin(user);
+      const { access_token, refresh_token } = await api.auth.login(email, password);
+      setApiToken(access_token, refresh_token ?? null);
+      onLogin(await api.auth.me());
     } catch (err) {
       setError('E-mail ou senha inválidos.');
       setApiToken(null);
@@ -440,6 +436,50 @@ const Login: React.FC<{
   );
 };
 
+// Sessão expirada sem refresh token válido: pede a senha por cima da tela atual, sem perder o serviço em andamento.
+// As requisições que receberam 401 ficam esperando e são repetidas assim que o login volta.
+const SessionExpiredModal: React.FC<{ user: User; onRelogin: () => void; onLogout: () => void }> = ({ user, onRelogin, onLogout }) => {
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async () => {
+        setError('');
+        setIsLoading(true);
+        try {
+            const { access_token, refresh_token } = await api.auth.login(user.email || '', password);
+            setApiToken(access_token, refresh_token ?? null);
+            onRelogin();
+        } catch (err) {
+            setError(describeApiError(err, 'Não foi possível entrar. Tente novamente.', { 401: 'Senha incorreta.' }));
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="modal-overlay" role="dialog" aria-modal="true">
+            <div className="card modal-card">
+                <h3>Sessão expirada</h3>
+                <p>Por segurança, entre novamente para continuar. O que você estava fazendo não será perdido.</p>
+                {error && <p className="text-danger">{error}</p>}
+                <input type="email" value={user.email || ''} readOnly />
+                <input
+                    type="password"
+                    placeholder="Senha"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter' && password) handleSubmit(); }}
+                    autoFocus
+                />
+                <button className="button" onClick={handleSubmit} disabled={isLoading || !password}>
+                    {isLoading ? 'Entrando...' : 'Entrar'}
+                </button>
+                <button className="button button-secondary" onClick={onLogout} disabled={isLoading}>Sair do Sistema</button>
+            </div>
+        </div>
+    );
+};
+
 const AdminDashboard: React.FC<{ onNavigate: (view: View) => void; onLogout: () => void; }> = ({ onNavigate, onLogout }) => (
     <div className="dashboard-container">
         <div className="admin-dashboard">
@@ -451,6 +491,7 @@ const AdminDashboard: React.FC<{ onNavigate: (view: View) => void; onLogout: ()
             <button className="button admin-button" onClick={() => onNavigate('REPORTS')}>Gerador de Relatórios</button>
             <button className="button admin-button" onClick={() => onNavigate('HISTORY')}>Histórico Geral</button>
             <button className="button admin-button" onClick={() => onNavigate('AUDIT_LOG')}>📜 Log de Auditoria</button>
+            <button className="button admin-button" onClick={() => onNavigate('ADMIN_IMPORT_QUEUE')}>📦 Importar Pendências</button>
         </div>
         <button className="button button-danger" style={{ marginTop: '2rem' }} onClick={onLogout}>Sair do Sistema</button>
     </div>
@@ -463,14 +504,18 @@ const ManageCyclesView: React.FC<{
 }> = ({ locations, configs, fetchData }) => {
     const allContractGroups = [...new Set(locations.map(l => l.contractGroup))].sort();
     const [cycleConfigs, setCycleConfigs] = useState<Record<string, number>>({});
+    const [radiusConfigs, setRadiusConfigs] = useState<Record<string, number>>({});
 
     useEffect(() => {
         const initialState: Record<string, number> = {};
+        const initialRadius: Record<string, number> = {};
         allContractGroups.forEach(group => {
             const existingConfig = configs.find(c => c.contractGroup === group);
             initialState[group] = existingConfig ? existingConfig.cycleStartDay : 1;
+            initialRadius[group] = geofenceRadiusFor(group, configs);
         });
         setCycleConfigs(initialState);
+        setRadiusConfigs(initialRadius);
     }, [configs, locations]);
 
     const [isLoading, setIsLoading] = useState(false);
@@ -482,19 +527,22 @@ const ManageCyclesView: React.FC<{
         }
     };
 
+    const handleRadiusChange = (contractGroup: string, radius: string) => {
+        const radiusAsNumber = parseInt(radius, 10);
+        if (radius === '' || radiusAsNumber > 0) {
+            setRadiusConfigs(prev => ({...prev, [contractGroup]: radius === '' ? DEFAULT_GEOFENCE_RADIUS_METERS : radiusAsNumber}));
+        }
+    };
+
     const handleSave = async () => {
         setIsLoading(true);
-        const payload = {
-            configs: Object.entries(cycleConfigs).map(([group, day]) => ({
-                contractGroup: group,
-                cycleStartDay: day,
-            }))
-        };
+        const configs = Object.entries(cycleConfigs).map(([group, day]) => ({
+            contractGroup: group,
+            cycleStartDay: day,
+            geofenceRadius: radiusConfigs[group] || DEFAULT_GEOFENCE_RADIUS_METERS,
+        }));
         try {
-            await apiFetch('/api/contract-configs', {
-                method: 'POST',
-                body: JSON.stringify(payload),
-            });
+            await api.contractConfigs.save(configs);
             await fetchData();
             alert('Ciclos de medição salvos com sucesso!');
         } catch (error) {
@@ -509,6 +557,7 @@ const ManageCyclesView: React.FC<{
         <div className="card">
             <h2>Gerenciar Ciclos de Medição</h2>
             <p>Para cada contrato, defina o dia em que o ciclo de medição se inicia (ex: 10 para um ciclo que vai do dia 10 ao dia 9 do mês seguinte).</p>
+            <p>O raio de conferência define a distância máxima (em metros) entre o aparelho e o local cadastrado nas fotos "Antes" e "Depois". Registros feitos mais longe aparecem com o aviso "Fora do local".</p>
             
             <div className="form-container" style={{gap: '1.5rem', marginTop: '1.5rem', textAlign: 'left'}}>
                 {allContractGroups.map(group => (
@@ -522,6 +571,14 @@ const ManageCyclesView: React.FC<{
                             value={cycleConfigs[group] || 1}
                             onChange={(e) => handleDayChange(group, e.target.value)}
                         />
+                        <label htmlFor={`geofence-radius-${group}`}>Raio de conferência do local (m)</label>
+                        <input
+                            type="number"
+                            id={`geofence-radius-${group}`}
+                            min="1"
+                            value={radiusConfigs[group] || DEFAULT_GEOFENCE_RADIUS_METERS}
+                            onChange={(e) => handleRadiusChange(group, e.target.value)}
+                        />
                     </div>
                 ))}
             </div>
@@ -672,6 +729,10 @@ const OperatorServiceSelect: React.FC<{
     );
 };
 
+// Até esta distância o GPS confirma que o operador está no local e oferece o "Estou aqui"
+const NEARBY_RADIUS_METERS = 300;
+const MAX_NEARBY_SUGGESTIONS = 3;
+
 const OperatorLocationSelect: React.FC<{
     locations: LocationRecord[];
     contractGroup: string;
@@ -694,7 +755,7 @@ const OperatorLocationSelect: React.FC<{
             { enableHighAccuracy: true }
         );
         return () => navigator.geolocation.clearWatch(watchId);
-    }, [contractLocations]);
+    }, []);
 
     const handleSelectFromList = (loc: LocationRecord) => {
         onSelectLocation(loc, false);
@@ -725,12 +786,50 @@ const OperatorLocationSelect: React.FC<{
         return acc;
     }, {} as Record<string, LocationRecord[]>);
 
-    const filteredTopLevel = topLevelLocations.filter(loc => loc.name.toLowerCase().includes(searchQuery.toLowerCase()));
+    // Distância até o local cadastrado (Infinity sem GPS ou sem coordenadas); bairro conta pela rua mais próxima
+    const distanceTo = (loc: LocationRecord) => (gpsLocation && loc.coords ? calculateDistance(gpsLocation, loc.coords) : Infinity);
+    const distanceToTopLevel = (loc: LocationRecord) => Math.min(distanceTo(loc), ...(childrenMap[loc.id] || []).map(distanceTo));
+    const byDistance = (distanceOf: (loc: LocationRecord) => number) => (a: LocationRecord, b: LocationRecord) => {
+        const da = distanceOf(a), db = distanceOf(b);
+        return da === db ? 0 : da < db ? -1 : 1;
+    };
+
+    const filteredTopLevel = topLevelLocations
+        .filter(loc => loc.name.toLowerCase().includes(searchQuery.toLowerCase()))
+        .sort(byDistance(distanceToTopLevel));
+
+    // Locais selecionáveis (ruas e endereços avulsos, não bairros) dentro do raio, do mais perto ao mais longe
+    const nearbyLocations = contractLocations
+        .filter(loc => !loc.isGroup && distanceTo(loc) <= NEARBY_RADIUS_METERS)
+        .sort(byDistance(distanceTo))
+        .slice(0, MAX_NEARBY_SUGGESTIONS);
+    const nearbyIds = new Set(nearbyLocations.map(loc => loc.id));
+    const parentName = (loc: LocationRecord) => contractLocations.find(l => l.id === loc.parentId)?.name;
+
+    const renderDistance = (distance: number) =>
+        distance !== Infinity && <span className="location-distance">📍 {formatDistance(distance)}</span>;
 
     return (
         <div className="card">
             <h2>Selecione o Local em "{contractGroup}"</h2>
             {error && <p className="text-danger">{error}</p>}
+            {!error && !gpsLocation && <p className="gps-searching">Buscando sinal GPS para sugerir o local mais próximo...</p>}
+
+            {nearbyLocations.length > 0 && (
+                <div className="nearby-locations">
+                    <h4>Perto de você</h4>
+                    {nearbyLocations.map(loc => (
+                        <div key={loc.id} className="nearby-location">
+                            <div className="nearby-location-info">
+                                <span className="location-name">{loc.name}</span>
+                                {parentName(loc) && <span className="location-observation">Bairro: {parentName(loc)}</span>}
+                                {renderDistance(distanceTo(loc))}
+                            </div>
+                            <button className="button button-sm button-success" onClick={() => onSelectLocation(loc, true)}>Estou aqui</button>
+                        </div>
+                    ))}
+                </div>
+            )}
             
             <input type="search" placeholder="Buscar por bairro ou endereço..." value={searchQuery} onChange={e => setSearchQuery(e.target.value)} style={{marginBottom: '1rem'}} />
             
@@ -745,12 +844,14 @@ const OperatorLocationSelect: React.FC<{
                                 <summary className="button button-secondary location-button-with-obs" style={{width: '100%', textAlign: 'left', cursor: 'pointer'}}>
                                     <span className="location-name">Bairro: {loc.name}</span>
                                     {loc.observations && <span className="location-observation">Obs: {loc.observations}</span>}
+                                    {renderDistance(distanceToTopLevel(loc))}
                                 </summary>
                                 <div style={{padding: '0.5rem 0.5rem 0.5rem 1.5rem', borderLeft: '2px solid var(--medium-gray-color)'}}>
-                                    {children.map(street => (
-                                        <button key={street.id} className="button button-secondary location-button-with-obs" onClick={() => handleSelectFromList(street)} style={{marginBottom: '0.5rem'}}>
+                                    {[...children].sort(byDistance(distanceTo)).map(street => (
+                                        <button key={street.id} className={`button button-secondary location-button-with-obs ${nearbyIds.has(street.id) ? 'location-nearby' : ''}`} onClick={() => handleSelectFromList(street)} style={{marginBottom: '0.5rem'}}>
                                             <span className="location-name">{street.name}</span>
                                             {street.observations && <span className="location-observation">Obs: {street.observations}</span>}
+                                            {renderDistance(distanceTo(street))}
                                         </button>
                                     ))}
                                     <button className="button button-sm" onClick={() => handleAddNewStreet(loc)}>+ Adicionar Nova Rua</button>
@@ -759,9 +860,10 @@ const OperatorLocationSelect: React.FC<{
                         )
                     } else { // It's a simple, top-level address
                         return (
-                             <button key={loc.id} className="button button-secondary location-button-with-obs" onClick={() => handleSelectFromList(loc)}>
+                             <button key={loc.id} className={`button button-secondary location-button-with-obs ${nearbyIds.has(loc.id) ? 'location-nearby' : ''}`} onClick={() => handleSelectFromList(loc)}>
                                 <span className="location-name">{loc.name}</span>
                                 {loc.observations && <span className="location-observation">Obs: {loc.observations}</span>}
+                                {renderDistance(distanceTo(loc))}
                             </button>
                         )
                     }
@@ -778,37 +880,105 @@ const OperatorLocationSelect: React.FC<{
 };
 
 
-const PhotoStep: React.FC<{ phase: 'BEFORE' | 'AFTER'; onComplete: (photos: string[], serviceOrderNumber?: string) => void; onCancel: () => void }> = ({ phase, onComplete, onCancel }) => {
-    const [photos, setPhotos] = useState<string[]>([]);
+const PhotoStep: React.FC<{
+    phase: 'BEFORE' | 'AFTER';
+    context: PhotoContext; // contrato, local, serviço e operador gravados em cada foto
+    onComplete: (photos: StampedPhoto[], serviceOrderNumber?: string) => void;
+    onCancel: () => void;
+}> = ({ phase, context, onComplete, onCancel }) => {
+    const [photos, setPhotos] = useState<StampedPhoto[]>([]);
+    const positionRef = useRef<GeolocationPosition | null>(null);
+    // Foto aberta em tela cheia e foto sendo refeita (a próxima captura substitui ela)
+    const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+    const [retakeIndex, setRetakeIndex] = useState<number | null>(null);
     const [isTakingPhoto, setIsTakingPhoto] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [serviceOrderNumber, setServiceOrderNumber] = useState('');
+    const [storage, setStorage] = useState<StorageStatus | null>(null);
     const title = phase === 'BEFORE' ? 'Fotos Iniciais ("Antes")' : 'Fotos Finais ("Depois")';
     const instruction = `Capture fotos do local ${phase === 'BEFORE' ? 'antes' : 'após'} o serviço. Tire quantas quiser. Pressione 'Encerrar' quando terminar.`;
+    const storageFull = storage?.level === 'critical';
 
-    const handleCapture = (dataUrl: string) => {
-        setPhotos(p => [...p, dataUrl]);
-    };
-    const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const files = event.target.files;
-        if (files) {
-            Array.from(files).forEach(file => {
-                const reader = new FileReader();
-                reader.onload = (e) => {
-                    const dataUrl = e.target?.result as string;
-                    if (dataUrl) { setPhotos(p => [...p, dataUrl]); }
-                };
-                reader.readAsDataURL(file);
-            });
+    // Reavalia o espaço livre a cada foto (as fotos desta tela ainda vão entrar na fila)
+    useEffect(() => {
+        const pendingBytes = photos.reduce((total, p) => total + Math.round(p.dataUrl.length * 0.75), 0);
+        getStorageStatus(pendingBytes).then(setStorage).catch(err => console.warn("Falha ao consultar o armazenamento:", err));
+    }, [photos]);
+
+    // Última posição do GPS, gravada em cada foto tirada nesta etapa
+    useEffect(() => {
+        if (!('geolocation' in navigator)) return;
+        const watchId = navigator.geolocation.watchPosition(
+            (pos) => { positionRef.current = pos; },
+            (err) => console.warn("GPS indisponível para as fotos:", err.message),
+            { enableHighAccuracy: true }
+        );
+        return () => navigator.geolocation.clearWatch(watchId);
+    }, []);
+
+    const handleCapture = async (photo: Blob) => {
+        if (storageFull) {
+            alert('Armazenamento do aparelho cheio. Envie ou descarte registros pendentes antes de tirar novas fotos.');
+            setIsTakingPhoto(false);
+            return;
+        }
+        const stamped = await stampPhoto(photo, buildPhotoMetadata(context, { source: 'camera', position: positionRef.current }));
+        if (retakeIndex !== null) {
+            setPhotos(p => p.map((old, i) => (i === retakeIndex ? stamped : old)));
+            setRetakeIndex(null);
+            setIsTakingPhoto(false);
+            return;
         }
+        setPhotos(p => [...p, stamped]);
+    };
+
+    const handleDeletePhoto = (index: number) => {
+        if (!window.confirm(`Excluir a foto ${index + 1}?`)) return;
+        setPhotos(p => p.filter((_, i) => i !== index));
+        setPreviewIndex(null);
+    };
+
+    const handleRetakePhoto = (index: number) => {
+        setRetakeIndex(index);
+        setPreviewIndex(null);
+        setIsTakingPhoto(true);
+    };
+
+    // Troca a foto de lugar com a vizinha (direction -1 = para trás, 1 = para frente)
+    const handleMovePhoto = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= photos.length) return;
+        setPhotos(p => {
+            const reordered = [...p];
+            [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+            return reordered;
+        });
+    };
+    const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = event.target.files ? Array.from(event.target.files) : [];
         if (event.target) { event.target.value = ''; }
+        // Uma de cada vez: as fotos entram na ordem em que foram escolhidas
+        let failed = 0;
+        for (const file of files) {
+            try {
+                const stamped = await stampPhoto(await processImage(file), buildPhotoMetadata(context, { source: 'gallery', lastModified: file.lastModified }));
+                setPhotos(p => [...p, stamped]);
+            } catch (err) {
+                failed++;
+                console.error("Falha ao ler imagem selecionada:", file.name, err);
+            }
+        }
+        if (failed > 0) {
+            alert(`Não foi possível ler ${failed === 1 ? '1 imagem selecionada' : `${failed} imagens selecionadas`}. Tente escolher novamente.`);
+        }
     };
     const [selectedContractGroup, setSelectedContractGroup] = useState(''); // <--- NOVO ESTADO
     const handleUploadClick = () => {
         fileInputRef.current?.click();
     };
     if(isTakingPhoto) {
-        return <CameraView onCapture={handleCapture} onCancel={() => setIsTakingPhoto(false)} onFinish={() => setIsTakingPhoto(false)} photoCount={photos.length} />
+        const closeCamera = () => { setIsTakingPhoto(false); setRetakeIndex(null); };
+        return <CameraView onCapture={handleCapture} onCancel={closeCamera} onFinish={closeCamera} photoCount={photos.length} />
     }
     return (
         <div className="card">
@@ -829,21 +999,54 @@ const PhotoStep: React.FC<{ phase: 'BEFORE' | 'AFTER'; onComplete: (photos: stri
                 </div>
             )}
 
+            {storage && storage.level !== 'ok' && (
+                <p className={`storage-warning ${storage.level}`}>
+                    {storageFull
+                        ? '⛔ Armazenamento do aparelho cheio. Novas fotos estão bloqueadas até a fila ser enviada ou liberar espaço.'
+                        : `⚠️ Pouco espaço livre no aparelho (${Math.round(storage.free / (1024 * 1024))} MB). Sincronize assim que possível.`}
+                </p>
+            )}
+
             <div className="photo-section">
                 <h3>Fotos Capturadas ({photos.length})</h3>
+                {photos.length > 0 && <p className="photo-review-hint">Toque numa foto para ampliar, excluir ou refazer. Use as setas para mudar a ordem.</p>}
                 <div className="photo-gallery">
-                    {photos.map((p, i) => <img key={i} src={p} alt={`Foto ${i+1}`} className="image-preview" />)}
+                    {photos.map((p, i) => (
+                        <div key={i} className="photo-thumb">
+                            <button className="photo-thumb-open" onClick={() => setPreviewIndex(i)} aria-label={`Ampliar foto ${i+1}`}>
+                                <img src={p.dataUrl} alt={`Foto ${i+1}`} className="image-preview" />
+                            </button>
+                            <div className="photo-thumb-order">
+                                <button onClick={() => handleMovePhoto(i, -1)} disabled={i === 0} aria-label="Mover para trás">◀</button>
+                                <span>{i + 1}</span>
+                                <button onClick={() => handleMovePhoto(i, 1)} disabled={i === photos.length - 1} aria-label="Mover para frente">▶</button>
+                            </div>
+                        </div>
+                    ))}
                 </div>
                 <input type="file" ref={fileInputRef} onChange={handleFileSelect} style={{ display: 'none' }} accept="image/*" multiple />
                 <div className="photo-actions">
-                    <button className="button" onClick={() => setIsTakingPhoto(true)}>📷 {photos.length > 0 ? 'Tirar Outra Foto' : 'Iniciar Captura'}</button>
-                    <button className="button button-secondary" onClick={handleUploadClick}>🖼️ Adicionar Foto do Dispositivo</button>
+                    <button className="button" onClick={() => setIsTakingPhoto(true)} disabled={storageFull}>📷 {photos.length > 0 ? 'Tirar Outra Foto' : 'Iniciar Captura'}</button>
+                    <button className="button button-secondary" onClick={handleUploadClick} disabled={storageFull}>🖼️ Adicionar Foto do Dispositivo</button>
                 </div>
             </div>
             <div style={{display: 'flex', gap: '1rem', marginTop: '1rem'}}>
                 <button className="button button-danger" onClick={onCancel}>Cancelar</button>
                 <button className="button button-success" onClick={() => onComplete(photos, serviceOrderNumber)} disabled={photos.length === 0}>✅ Encerrar Captação</button>
             </div>
+
+            {previewIndex !== null && photos[previewIndex] && (
+                <ImageViewer
+                    src={photos[previewIndex].dataUrl}
+                    onClose={() => setPreviewIndex(null)}
+                    actions={<>
+                        <span className="image-viewer-counter">Foto {previewIndex + 1} de {photos.length}</span>
+                        <button className="button button-sm button-danger" onClick={() => handleDeletePhoto(previewIndex)}>🗑️ Excluir</button>
+                        <button className="button button-sm" onClick={() => handleRetakePhoto(previewIndex)} disabled={storageFull}>📷 Refazer</button>
+                        <button className="button button-sm button-secondary" onClick={() => setPreviewIndex(null)}>Manter</button>
+                    </>}
+                />
+            )}
         </div>
     );
 };
@@ -1008,7 +1211,7 @@ const filteredRecords = useMemo(() => {
                                     </div>
                                 )}
                                 <div onClick={() => onSelect(record)} style={{ flexGrow: 1, cursor: 'pointer'}}>
-                                    <p><strong>Local:</strong> {record.locationName}, {record.contractGroup} {record.gpsUsed && <span className="gps-indicator">📍</span>}</p>
+                                    <p><strong>Local:</strong> {record.locationName}, {record.contractGroup} {record.gpsUsed && <span className="gps-indicator">📍</span>} <GeofenceBadge record={record} /></p>
                                     <p><strong>Serviço:</strong> {record.serviceType}</p>
                                     {record.serviceOrderNumber && <p><strong>O.S.:</strong> {record.serviceOrderNumber}</p>}
                                     <p><strong>Data:</strong> {formatDateTime(record.startTime)}</p>
@@ -1068,12 +1271,46 @@ const filteredRecords = useMemo(() => {
     );
 };
 
-const DetailView: React.FC<{ record: ServiceRecord; onViewImage: (src: string) => void; }> = ({ record, onViewImage }) => ( // Adicionado onViewImage
+// Aviso de registro feito longe do local cadastrado (conferência do GPS nas fotos "Antes"/"Depois")
+const GeofenceBadge: React.FC<{ record: ServiceRecord }> = ({ record }) =>
+    record.geofenceStatus === 'outside' ? (
+        <span className="geofence-badge" title={`Antes: ${describePositionCheck(record.beforePosition)} · Depois: ${describePositionCheck(record.afterPosition)}`}>
+            ⚠️ {GEOFENCE_LABELS.outside}
+        </span>
+    ) : null;
+
+// Origem da foto (câmera do app ou galeria) e marcação de revisão, com os dados do arquivo no title
+const PhotoEvidenceTag: React.FC<{ metadata?: PhotoMetadata; startTime: string }> = ({ metadata, startTime }) => {
+    if (!metadata?.source) return null;
+    const flagged = isFlaggedForReview(metadata, startTime);
+    const details = [
+        metadata.capturedAt && `Adicionada em ${formatDateTime(metadata.capturedAt)}`,
+        metadata.fileLastModified && `Arquivo modificado em ${formatDateTime(metadata.fileLastModified)}`,
+        metadata.sha256 && `SHA-256: ${metadata.sha256}`,
+    ].filter(Boolean).join('\n');
+    return (
+        <span className={`photo-evidence-tag ${flagged ? 'flagged' : ''}`} title={details}>
+            {flagged ? '⚠️ Revisar' : metadata.source === 'camera' ? '📷 Câmera' : '🖼️ Galeria'}
+        </span>
+    );
+};
+
+const DetailView: React.FC<{ record: ServiceRecord; onViewImage: (src: string) => void; }> = ({ record, onViewImage }) => { // Adicionado onViewImage
+    const flaggedPhotos = getFlaggedPhotos(record);
+    return (
     <div className="detail-view">
         <div className="detail-section card">
             <h3>Resumo</h3>
             <p><strong>Contrato/Cidade:</strong> {record.contractGroup}</p>
-            <p><strong>Local:</strong> {record.locationName} {record.gpsUsed && <span className='gps-indicator'>📍(GPS)</span>}</p>
+            <p><strong>Local:</strong> {record.locationName} {record.gpsUsed && <span className='gps-indicator'>📍(GPS)</span>} <GeofenceBadge record={record} /></p>
+            <p><strong>Conferência do local:</strong> {GEOFENCE_LABELS[record.geofenceStatus || 'unverified']}{record.geofenceRadius ? ` (raio de ${record.geofenceRadius} m)` : ''}</p>
+            <p><strong>Posição nas fotos "Antes":</strong> {describePositionCheck(record.beforePosition)}</p>
+            <p><strong>Posição nas fotos "Depois":</strong> {describePositionCheck(record.afterPosition)}</p>
+            {flaggedPhotos.length > 0 && (
+                <p className="photo-review-warning">
+                    ⚠️ {flaggedPhotos.length} foto(s) da galeria com arquivo anterior ao início do serviço ({formatDateTime(record.startTime)}). Revise antes de aprovar.
+                </p>
+            )}
             <p><strong>Ordem de Serviço:</strong> {record.serviceOrderNumber || 'N/A'}</p>
             <p><strong>Observações:</strong> {record.observations || 'Nenhuma'}</p>
             <p><strong>Serviço:</strong> {record.serviceType}</p>
@@ -1095,6 +1332,7 @@ const DetailView: React.FC<{ record: ServiceRecord; onViewImage: (src: string) =
                         style={{ padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
                     >
                         <img src={`${API_BASE}${p}`} alt={`Antes ${i+1}`} />
+                        <PhotoEvidenceTag metadata={record.photoMetadata?.[p]} startTime={record.startTime} />
                     </button>
                 ))}
             </div>
@@ -1109,14 +1347,25 @@ const DetailView: React.FC<{ record: ServiceRecord; onViewImage: (src: string) =
                         style={{ padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
                     >
                         <img src={`${API_BASE}${p}`} alt={`Depois ${i+1}`} />
+                        <PhotoEvidenceTag metadata={record.photoMetadata?.[p]} startTime={record.startTime} />
                     </button>
                 ))}
             </div>
         </div>
     </div>
-);
-const ReportsView: React.FC<{ records: ServiceRecord[]; services: ServiceDefinition[]; locations: LocationRecord[]; }> = ({ records, services, locations }) => {
-    const [reportType, setReportType] = useState<'excel' | 'photos' | 'billing' | null>(null);
+    );
+};
+type ReportType = 'excel' | 'photos' | 'billing';
+const REPORT_TYPES: ReportType[] = ['excel', 'photos', 'billing'];
+
+const ReportsView: React.FC<{
+    records: ServiceRecord[];
+    services: ServiceDefinition[];
+    locations: LocationRecord[];
+    reportType?: string; // vem da URL (/reports/:type)
+    onReportTypeChange: (type: ReportType | null) => void;
+}> = ({ records, services, locations, reportType: routeReportType, onReportTypeChange: setReportType }) => {
+    const reportType = REPORT_TYPES.find(type => type === routeReportType) || null;
     const [startDate, setStartDate] = useState('');
     const [endDate, setEndDate] = useState('');
     const [selectedServices, setSelectedServices] = useState<string[]>([]);
@@ -1215,6 +1464,8 @@ const filteredRecords = records
             { header: 'Serviço', key: 'serviceType', width: 30 },
             { header: 'Medição', key: 'locationArea', width: 15 }, { header: 'Unidade', key: 'serviceUnit', width: 15 },
             { header: 'Operador', key: 'operatorName', width: 25 }, { header: 'Usou GPS', key: 'gpsUsed', width: 10 },
+            { header: 'Conferência do Local', key: 'geofence', width: 20 },
+            { header: 'Posição Antes', key: 'beforePosition', width: 30 }, { header: 'Posição Depois', key: 'afterPosition', width: 30 },
             { header: 'O.S.', key: 'os', width: 15 },
         ];
         selectedRecords.forEach(record => {
@@ -1226,6 +1477,9 @@ const filteredRecords = records
                 serviceType: record.serviceType, locationArea: record.locationArea,
                 serviceUnit: record.serviceUnit, operatorName: record.operatorName,
                 gpsUsed: record.gpsUsed ? 'Sim' : 'Não',
+                geofence: GEOFENCE_LABELS[record.geofenceStatus || 'unverified'],
+                beforePosition: describePositionCheck(record.beforePosition),
+                afterPosition: describePositionCheck(record.afterPosition),
                 os: record.serviceOrderNumber || ''
             });
         });
@@ -1546,9 +1800,19 @@ const styles = {
             photoTable: { width: '100%', borderCollapse: 'collapse' as const },
             photoCell: { width: '50%', padding: '5px', textAlign: 'center' as const, verticalAlign: 'top' as const, border: '1px solid #ddd' },
             img: { width: '100%', maxHeight: '180px', objectFit: 'contain' as const, display: 'block', margin: '0 auto' },
-            caption: { fontSize: '8pt', marginTop: '4px', color: '#555' }
+            caption: { fontSize: '8pt', marginTop: '4px', color: '#555' },
+            geofenceWarning: { marginLeft: '8px', color: '#b45309', fontWeight: 'bold' as const },
+            metadataCaption: { fontSize: '7pt', color: '#555', lineHeight: 1.3 }
         };
 
+        // Os mesmos dados da marca d'água, legíveis mesmo com a foto reduzida no PDF
+        const PhotoMetadataCaption: React.FC<{ metadata?: PhotoMetadata }> = ({ metadata }) =>
+            metadata ? (
+                <div style={styles.metadataCaption}>
+                    {describePhotoMetadata(metadata).map((line, i) => <div key={i}>{line}</div>)}
+                </div>
+            ) : null;
+
         return (
             <div className="printable-report-container" ref={printableRef} style={{ position: 'absolute', top: '-10000px' }}>
                 {pages.map((pageRecords, pageIndex) => (
@@ -1582,7 +1846,10 @@ const styles = {
                                             <tbody>
                                                 <tr>
                                                     {/* Exibe Bairro - Rua no cabeçalho do item */}
-                                                    <td style={styles.infoCell} colSpan={4}><strong>Local:</strong> {locationDisplayName}</td>
+                                                    <td style={styles.infoCell} colSpan={4}>
+                                                        <strong>Local:</strong> {locationDisplayName}
+                                                        {record.geofenceStatus === 'outside' && <span style={styles.geofenceWarning}>⚠️ {GEOFENCE_LABELS.outside}</span>}
+                                                    </td>
                                                 </tr>
                                                 <tr>
                                                     <td style={{...styles.infoCell, width: '20%'}}><strong>Data:</strong> {new Date(record.startTime).toLocaleDateString('pt-BR')}</td>
@@ -1611,6 +1878,7 @@ const styles = {
                                                                     <img src={loadedImages[`${API_BASE}${pair.before}`]} alt="Antes" style={styles.img} />
                                                                     {/* Legenda com o nome composto também */}
                                                                     <div style={styles.caption}>{locationDisplayName}</div>
+                                                                    <PhotoMetadataCaption metadata={record.photoMetadata?.[pair.before]} />
                                                                 </>
                                                             ) : <div style={{height: '100px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#ccc'}}>Sem foto</div>}
                                                         </td>
@@ -1619,6 +1887,7 @@ const styles = {
                                                                 <>
                                                                     <img src={loadedImages[`${API_BASE}${pair.after}`]} alt="Depois" style={styles.img} />
                                                                     <div style={styles.caption}>{locationDisplayName}</div>
+                                                                    <PhotoMetadataCaption metadata={record.photoMetadata?.[pair.after]} />
                                                                 </>
                                                             ) : <div style={{height: '100px', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#ccc'}}>Sem foto</div>}
                                                         </td>
@@ -1702,7 +1971,7 @@ const styles = {
                         <input type="checkbox" checked={selectedIds.includes(record.id)} onChange={e => handleSelectOne(record.id, e.target.checked)} />
                         <div className="report-item-info">
                             {/* Uso da função aqui também para visualização na lista */}
-                            <p><strong>{getFullLocationName(record)}</strong> - {record.serviceType}</p>
+                            <p><strong>{getFullLocationName(record)}</strong> - {record.serviceType} <GeofenceBadge record={record} /></p>
                             <p><small>{record.contractGroup} | {formatDateTime(record.startTime)}</small></p>
                         </div>
                     </li>
@@ -1717,8 +1986,10 @@ const ManageLocationsView: React.FC<{
     services: ServiceDefinition[];
     fetchData: () => Promise<void>;
     addAuditLogEntry: (action: 'UPDATE' | 'DELETE', details: string, recordId?: string) => void;
-}> = ({ locations, services, fetchData, addAuditLogEntry }) => {
-    const [selectedGroup, setSelectedGroup] = useState('');
+    group?: string; // contrato selecionado, vem da URL (?group=)
+    onGroupChange: (group: string) => void;
+}> = ({ locations, services, fetchData, addAuditLogEntry, group, onGroupChange: setSelectedGroup }) => {
+    const selectedGroup = group || '';
     const [name, setName] = useState('');
     const [observations, setObservations] = useState('');
     const [coords, setCoords] = useState<Partial<GeolocationCoords> | null>(null);
@@ -1728,6 +1999,7 @@ const ManageLocationsView: React.FC<{
     const [isGroupActionLoading, setIsGroupActionLoading] = useState(false);
     const [locationType, setLocationType] = useState<'SIMPLE' | 'NEIGHBORHOOD' | 'STREET'>('SIMPLE');
     const [parentId, setParentId] = useState<string | null>(null);
+    const [formErrors, setFormErrors] = useState<FormErrors>(NO_FORM_ERRORS);
     
     // Search and Pagination State
     const [searchTerm, setSearchTerm] = useState('');
@@ -1744,6 +2016,7 @@ const ManageLocationsView: React.FC<{
         setEditingId(null);
         setLocationType('SIMPLE');
         setParentId(null);
+        setFormErrors(NO_FORM_ERRORS);
     };
 
     const handleAddNewGroup = () => {
@@ -1765,13 +2038,13 @@ const ManageLocationsView: React.FC<{
         if (window.confirm(`Tem certeza que deseja renomear "${selectedGroup}" para "${formattedNewName}"? Isso afetará todos os locais associados.`)) {
             setIsGroupActionLoading(true);
             try {
-                await apiFetch(`/api/contract-groups/${encodeURIComponent(selectedGroup)}`, { method: 'PUT', body: JSON.stringify({ newName: formattedNewName }) });
+                await api.contractGroups.rename(selectedGroup, formattedNewName);
                 addAuditLogEntry('UPDATE', `Contrato/Cidade '${selectedGroup}' renomeado para '${formattedNewName}'`);
                 alert('Contrato/Cidade renomeado com sucesso!');
                 await fetchData(); 
                 setSelectedGroup(formattedNewName);
             } catch (error) {
-                alert('Falha ao renomear o Contrato/Cidade.');
+                alert(describeApiError(error, 'Falha ao renomear o Contrato/Cidade.', { 409: 'Já existe um Contrato/Cidade com este nome.' }));
                 console.error(error);
             } finally { setIsGroupActionLoading(false); }
         }
@@ -1786,14 +2059,14 @@ const ManageLocationsView: React.FC<{
 
         setIsGroupActionLoading(true);
         try {
-            await apiFetch(`/api/contract-groups/${encodeURIComponent(selectedGroup)}`, { method: 'DELETE', body: JSON.stringify({ password: password }) });
+            await api.contractGroups.remove(selectedGroup, password);
             addAuditLogEntry('DELETE', `Contrato/Cidade '${selectedGroup}' e todos os seus locais associados foram excluídos.`);
             alert('Contrato/Cidade e todos os locais associados foram excluídos com sucesso!');
             await fetchData();
             resetForm();
             setSelectedGroup('');
         } catch (error) {
-            alert('Falha ao excluir. Verifique sua senha.');
+            alert(describeApiError(error, 'Falha ao excluir. Verifique sua senha.', { 403: 'Senha incorreta.' }));
             console.error(error);
         } finally { setIsGroupActionLoading(false); }
     };
@@ -1859,13 +2132,17 @@ const ManageLocationsView: React.FC<{
             parentId: locationType === 'STREET' ? parentId : null
         };
 
+        setFormErrors(NO_FORM_ERRORS);
         try {
-            if (editingId) { await apiFetch(`/api/locations/${editingId}`, { method: 'PUT', body: JSON.stringify(payload) }); }
-            else { await apiFetch('/api/locations', { method: 'POST', body: JSON.stringify(payload) }); }
+            if (editingId) { await api.locations.update(editingId, payload); }
+            else { await api.locations.create(payload); }
             alert(`Local "${nameUpperCase}" salvo com sucesso!`);
             resetForm();
             await fetchData();
-        } catch (error) { alert('Falha ao salvar local.'); console.error(error); }
+        } catch (error) {
+            setFormErrors(toFormErrors(error, 'Falha ao salvar local.', { 409: 'Já existe um local com este nome neste Contrato/Cidade.' }));
+            console.error(error);
+        }
     };
 
     const handleEdit = (loc: LocationRecord) => {
@@ -1894,9 +2171,12 @@ const ManageLocationsView: React.FC<{
     const handleDelete = async (id: string) => {
         if (window.confirm('Excluir este local?')) {
             try {
-                await apiFetch(`/api/locations/${id}`, { method: 'DELETE' });
+                await api.locations.remove(id);
                 await fetchData();
-            } catch (error) { alert('Falha ao excluir local.'); console.error(error); }
+            } catch (error) {
+                alert(describeApiError(error, 'Falha ao excluir local.', { 409: 'Este local possui registros de serviço e não pode ser excluído.' }));
+                console.error(error);
+            }
         }
     };
 
@@ -1995,6 +2275,8 @@ const ManageLocationsView: React.FC<{
                                 {locations.filter(l => l.contractGroup === selectedGroup && l.isGroup).map(loc => <option key={loc.id} value={loc.id}>{loc.name}</option>)}
                             </select>
                         )}
+                        <FieldError message={formErrors.fields.parentId} />
+                        <FieldError message={formErrors.fields.city} />
                         <input 
                             type="text" 
                             placeholder={locationType === 'STREET' ? 'Nome da Rua' : locationType === 'NEIGHBORHOOD' ? 'Nome do Bairro' : 'Nome do Local/Endereço'} 
@@ -2002,6 +2284,7 @@ const ManageLocationsView: React.FC<{
                             onChange={e => setName(e.target.value.toUpperCase())} // Caixa alta
                             onBlur={e => setName(e.target.value.toUpperCase())} // Caixa alta
                         />
+                        <FieldError message={formErrors.fields.name} />
                         
                         <textarea 
                             placeholder="Observações (opcional)" 
@@ -2010,6 +2293,7 @@ const ManageLocationsView: React.FC<{
                             onBlur={e => setObservations(e.target.value.toUpperCase())} // Caixa alta
                             rows={3}
                         ></textarea>
+                        <FieldError message={formErrors.fields.observations} />
                         
                         {locationType !== 'STREET' && (
                             <fieldset className="service-assignment-fieldset"><legend>Serviços e Medições do Local</legend><div className="checkbox-group">
@@ -2020,14 +2304,16 @@ const ManageLocationsView: React.FC<{
                                         {isChecked && (<input type="number" placeholder={`Medição (${service.unit.symbol})`} value={serviceMeasurements[service.id] || ''} onChange={e => handleMeasurementChange(service.id, e.target.value)} style={{width: '100%'}} />)}
                                     </div>);
                                 })}
-                            </div></fieldset>
+                            </div><FieldError message={formErrors.fields.services} /></fieldset>
                         )}
 
                         <fieldset className="form-group-full"><legend>Coordenadas GPS (Opcional)</legend>
                             <div className="coord-inputs"><input type="number" placeholder="Latitude" value={coords?.latitude || ''} onChange={e => handleCoordChange('latitude', e.target.value)} /><input type="number" placeholder="Longitude" value={coords?.longitude || ''} onChange={e => handleCoordChange('longitude', e.target.value)} /></div>
                             <button className="button button-secondary" onClick={handleGetCoordinates} disabled={isFetchingCoords} style={{ marginTop: '0.5rem' }}>{isFetchingCoords ? 'Obtendo...' : '📍 Obter GPS Atual'}</button>
+                            <FieldError message={formErrors.fields.lat || formErrors.fields.lng} />
                         </fieldset>
                         
+                        <FormErrorMessage errors={formErrors} />
                         <button className="button admin-button" onClick={handleSave}>{editingId ? 'Salvar Alterações' : 'Adicionar Local'}</button>
                         {editingId && <button className="button button-secondary" onClick={resetForm}>Cancelar Edição</button>}
                     </div>
@@ -2087,6 +2373,7 @@ const ManageUsersView: React.FC<{
     const [assignments, setAssignments] = useState<UserAssignment[]>([]);
     const [editingId, setEditingId] = useState<string|null>(null);
     const [isLoading, setIsLoading] = useState(false);
+    const [formErrors, setFormErrors] = useState<FormErrors>(NO_FORM_ERRORS);
     
     const [newAssignmentGroup, setNewAssignmentGroup] = useState('');
     const [newAssignmentServices, setNewAssignmentServices] = useState<Set<string>>(new Set());
@@ -2101,6 +2388,7 @@ const ManageUsersView: React.FC<{
         setRole('OPERATOR');
         setAssignments([]);
         setEditingId(null);
+        setFormErrors(NO_FORM_ERRORS);
     };
     
     const handleAddAssignment = () => {
@@ -2153,6 +2441,7 @@ const ManageUsersView: React.FC<{
         }
 
         setIsLoading(true);
+        setFormErrors(NO_FORM_ERRORS);
 
         const payload: any = {
             name: username,
@@ -2168,14 +2457,14 @@ const ManageUsersView: React.FC<{
 
         try {
             if (editingId) {
-                await apiFetch(`/api/users/${editingId}`, { method: 'PUT', body: JSON.stringify(payload) });
+                await api.users.update(editingId, payload);
             } else {
-                await apiFetch('/api/users', { method: 'POST', body: JSON.stringify(payload) });
+                await api.users.create(payload);
             }
             await onUsersUpdate();
             resetForm();
         } catch (e) {
-            alert('Falha ao salvar usuário. Verifique se o e-mail já existe.');
+            setFormErrors(toFormErrors(e, 'Falha ao salvar usuário.', { 409: 'Já existe um usuário com este e-mail.' }));
             console.error(e);
         } finally {
             setIsLoading(false);
@@ -2189,16 +2478,17 @@ const ManageUsersView: React.FC<{
         setPassword('');
         setRole(user.role);
         setAssignments(user.assignments || []);
+        setFormErrors(NO_FORM_ERRORS);
     };
 
     const handleDelete = async (id: string) => {
         if(window.confirm('Excluir este usuário? Esta ação não pode ser desfeita.')) {
             setIsLoading(true);
             try {
-                await apiFetch(`/api/users/${id}`, { method: 'DELETE' });
+                await api.users.remove(id);
                 await onUsersUpdate();
             } catch (e) {
-                alert('Falha ao excluir usuário.');
+                alert(describeApiError(e, 'Falha ao excluir usuário.'));
                 console.error(e);
             } finally {
                 setIsLoading(false);
@@ -2211,13 +2501,17 @@ const ManageUsersView: React.FC<{
             <div className="form-container card">
                 <h3>{editingId ? 'Editando Funcionário' : 'Adicionar Novo Funcionário'}</h3>
                 <input type="text" placeholder="Nome de usuário" value={username} onChange={e => setUsername(e.target.value)} />
+                <FieldError message={formErrors.fields.name} />
                 <input type="email" placeholder="E-mail" value={email} onChange={e => setEmail(e.target.value)} />
+                <FieldError message={formErrors.fields.email} />
                 <input type="text" placeholder={editingId ? 'Nova Senha (deixe em branco para não alterar)' : 'Senha'} value={password} onChange={e => setPassword(e.target.value)} />
+                <FieldError message={formErrors.fields.password} />
                 <select value={role} onChange={e => setRole(e.target.value as Role)}>
                     <option value="OPERATOR">Operador</option>
                     <option value="FISCAL">Fiscalização</option>
                     <option value="ADMIN">Administrador</option>
                 </select>
+                <FieldError message={formErrors.fields.role} />
                 
                 {(role === 'OPERATOR' || role === 'FISCAL') && (
                     <fieldset className="assignment-section">
@@ -2255,9 +2549,11 @@ const ManageUsersView: React.FC<{
                             </div>
                             <button type="button" className="button button-sm" onClick={handleAddAssignment}>Adicionar Atribuição</button>
                         </div>
+                        <FieldError message={formErrors.fields.assignments} />
                     </fieldset>
                 )}
 
+                <FormErrorMessage errors={formErrors} />
                 <button className="button admin-button" onClick={handleSave} disabled={isLoading}>{isLoading ? 'Salvando...' : (editingId ? 'Salvar Alterações' : 'Adicionar')}</button>
                 {editingId && <button className="button button-secondary" onClick={resetForm}>Cancelar</button>}
             </div>
@@ -2305,15 +2601,16 @@ const GoalsAndChartsView: React.FC<{
     const [targetAreaGoal, setTargetAreaGoal] = useState('');
     const [serviceIdGoal, setServiceIdGoal] = useState('');
     const [editingIdGoal, setEditingIdGoal] = useState<string | null>(null);
+    const [goalErrors, setGoalErrors] = useState<FormErrors>(NO_FORM_ERRORS);
 
     useEffect(() => {
         const fetchGoals = async () => {
             try {
-                const fetchedGoals = await apiFetch('/api/goals');
-                setGoals(fetchedGoals.map((g: any) => ({ ...g, id: String(g.id) })));
+                setGoals(await api.goals.list({ signal: viewSignal() }));
             } catch (error) {
+                if (isAbortError(error)) return;
                 console.error("Failed to fetch goals", error);
-                alert("Não foi possível carregar as metas.");
+                alert(describeApiError(error, "Não foi possível carregar as metas."));
             }
         };
         fetchGoals();
@@ -2331,12 +2628,10 @@ const GoalsAndChartsView: React.FC<{
         setIsLoadingChart(true);
         setChartData(null);
         try {
-            const params = new URLSearchParams({ startDate, endDate });
-            selectedContracts.forEach(c => params.append('contractGroups', c));
-            const data = await apiFetch(`/api/reports/performance-graph?${params.toString()}`);
-            setChartData(data);
+            setChartData(await api.reports.performanceGraph(startDate, endDate, selectedContracts, { signal: viewSignal() }));
         } catch (error) {
-            alert('Erro ao gerar dados para o gráfico.');
+            if (isAbortError(error)) return;
+            alert(describeApiError(error, 'Erro ao gerar dados para o gráfico.'));
             console.error(error);
         } finally {
             setIsLoadingChart(false);
@@ -2355,6 +2650,7 @@ const GoalsAndChartsView: React.FC<{
         setTargetAreaGoal('');
         setServiceIdGoal('');
         setEditingIdGoal(null);
+        setGoalErrors(NO_FORM_ERRORS);
     };
 
     const handleSaveGoal = async () => {
@@ -2369,24 +2665,19 @@ const GoalsAndChartsView: React.FC<{
             serviceId: parseInt(serviceIdGoal, 10),
         };
 
+        setGoalErrors(NO_FORM_ERRORS);
         try {
             if (editingIdGoal) {
-                const updatedGoal = await apiFetch(`/api/goals/${editingIdGoal}`, {
-                    method: 'PUT',
-                    body: JSON.stringify(payload)
-                });
-                setGoals(prevGoals => prevGoals.map(g => g.id === editingIdGoal ? { ...updatedGoal, id: String(updatedGoal.id) } : g));
+                const updatedGoal = await api.goals.update(editingIdGoal, payload);
+                setGoals(prevGoals => prevGoals.map(g => g.id === editingIdGoal ? updatedGoal : g));
             } else {
-                const newGoal = await apiFetch('/api/goals', {
-                    method: 'POST',
-                    body: JSON.stringify(payload)
-                });
-                setGoals(prevGoals => [{ ...newGoal, id: String(newGoal.id) }, ...prevGoals]);
+                const newGoal = await api.goals.create(payload);
+                setGoals(prevGoals => [newGoal, ...prevGoals]);
             }
             resetFormGoal();
         } catch (error) {
             console.error("Error saving goal:", error);
-            alert("Erro ao salvar a meta.");
+            setGoalErrors(toFormErrors(error, "Erro ao salvar a meta.", { 409: "Já existe uma meta para este contrato, serviço e mês." }));
         }
     };
 
@@ -2396,16 +2687,17 @@ const GoalsAndChartsView: React.FC<{
         setMonthGoal(goal.month);
         setTargetAreaGoal(String(goal.targetArea));
         setServiceIdGoal(String(goal.serviceId));
+        setGoalErrors(NO_FORM_ERRORS);
     };
 
     const handleDeleteGoal = async (id: string) => {
         if (window.confirm('Excluir esta meta?')) {
             try {
-                await apiFetch(`/api/goals/${id}`, { method: 'DELETE' });
+                await api.goals.remove(id);
                 setGoals(prevGoals => prevGoals.filter(g => g.id !== id));
             } catch (error) {
                 console.error("Error deleting goal:", error);
-                alert("Erro ao excluir a meta.");
+                alert(describeApiError(error, "Erro ao excluir a meta."));
             }
         }
     };
@@ -2534,6 +2826,7 @@ const GoalsAndChartsView: React.FC<{
                         <option key={s.id} value={s.id}>{s.name}</option>
                     ))}
                 </select>
+                <FieldError message={goalErrors.fields.serviceId} />
                 <input 
                     list="goal-contract-groups" 
                     placeholder="Digite ou selecione um Contrato/Cidade" 
@@ -2544,8 +2837,12 @@ const GoalsAndChartsView: React.FC<{
                 <datalist id="goal-contract-groups">
                     {allContractGroups.map(g => <option key={g} value={g} />)}
                 </datalist>
+                <FieldError message={goalErrors.fields.contractGroup} />
                 <input type="month" value={monthGoal} onChange={e => setMonthGoal(e.target.value)} />
+                <FieldError message={goalErrors.fields.month} />
                 <input type="number" placeholder="Meta de Medição" value={targetAreaGoal} onChange={e => setTargetAreaGoal(e.target.value)} />
+                <FieldError message={goalErrors.fields.targetArea} />
+                <FormErrorMessage errors={goalErrors} />
                 <button className="button admin-button" onClick={handleSaveGoal}>{editingIdGoal ? 'Salvar Alterações' : 'Adicionar Meta'}</button>
                 {editingIdGoal && <button className="button button-secondary" onClick={resetFormGoal}>Cancelar Edição</button>}
             </div>
@@ -2650,6 +2947,9 @@ const AdminEditRecordView: React.FC<{
     currentUser: User | null;
 }> = ({ record, onSave, onCancel, setIsLoading, currentUser }) => {
     const [formData, setFormData] = useState<ServiceRecord>(record);
+    // Última versão conhecida do servidor: base do If-Match e da comparação em caso de conflito
+    const [baseRecord, setBaseRecord] = useState<ServiceRecord>(record);
+    const [hasConflict, setHasConflict] = useState(false);
     const isOperator = currentUser?.role === 'OPERATOR';
 
     const handleChange = (field: keyof ServiceRecord, value: any) => {
@@ -2673,15 +2973,20 @@ const AdminEditRecordView: React.FC<{
     const handleSave = async (isPhotoUpload = false) => {
         setIsLoading("Salvando alterações...");
         try {
-            const updated = await apiFetch(`/api/records/${formData.id}`, {
-                method: 'PUT',
-                body: JSON.stringify(formData),
+            const { queued, result } = await submitMutation({
+                type: 'updateRecord',
+                recordId: formData.id,
+                body: formData,
+                ifMatch: versionTag(baseRecord.version),
             });
+            // Offline: segue com o formulário como está; o servidor recebe a alteração quando o sinal voltar
+            const updated = queued ? formData : result;
              const fullRecord = {
                 ...updated,
                 id: String(updated.id),
                 operatorId: String(updated.operatorId),
             };
+            if (!queued) setBaseRecord(fullRecord);
             
             // Se for upload de foto, apenas atualiza o estado e não retorna (para permitir o próximo passo)
             if (isPhotoUpload) {
@@ -2690,8 +2995,13 @@ const AdminEditRecordView: React.FC<{
             }
             
             onSave(fullRecord);
-            alert("Registro atualizado com sucesso!");
+            alert(queued ? "Sem conexão: a alteração foi guardada no aparelho e será enviada automaticamente." : "Registro atualizado com sucesso!");
         } catch (e) {
+            // Outra pessoa salvou antes: abre a comparação campo a campo em vez de sobrescrever
+            if (isConflictError(e)) {
+                setHasConflict(true);
+                return;
+            }
             alert("Erro ao atualizar registro.");
             console.error(e);
         } finally {
@@ -2708,6 +3018,7 @@ const handlePhotoUpload = async (phase: 'BEFORE' | 'AFTER', files: FileList | nu
         try {
             // Salva os dados de texto do formulário primeiro
             updatedRecord = await handleSave(true) as ServiceRecord; 
+            if (!updatedRecord) { setIsLoading(null); return; }
         } catch (e) {
             alert("Erro ao salvar as alterações de texto. Não foi possível prosseguir com o upload.");
             setIsLoading(null);
@@ -2715,15 +3026,15 @@ const handlePhotoUpload = async (phase: 'BEFORE' | 'AFTER', files: FileList | nu
         }
 
         // Continua com o upload
-        const formDataUpload = new FormData();
-        formDataUpload.append("phase", phase);
-        Array.from(files).forEach(file => formDataUpload.append("files", file));
-        
         try {
-            await apiFetch(`/api/records/${updatedRecord.id}/photos`, { 
-                method: "POST",
-                body: formDataUpload
-            });
+            // Mesmo pipeline do operador: sem isso o original da galeria vai inteiro para a fila e para o upload
+            const processedFiles = await Promise.all(Array.from(files).map(async file => {
+                const blob = await processImage(file);
+                if (blob === file) return file;
+                const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+                return new File([blob], `${file.name.replace(/\.[^.]+$/, '')}.${extension}`, { type: blob.type, lastModified: file.lastModified });
+            }));
+            const upload = await submitMutation({ type: 'addPhotos', recordId: updatedRecord.id, phase, files: processedFiles });
             
             // --- NOVA CORREÇÃO PARA O PROBLEMA DO TIMESTAMP (Admin/Fiscal) ---
             // Se o usuário é Admin ou Fiscal, garantimos que o startTime e endTime originais sejam mantidos.
@@ -2736,21 +3047,22 @@ const handlePhotoUpload = async (phase: 'BEFORE' | 'AFTER', files: FileList | nu
                      endTime: formData.endTime,
                      serviceOrderNumber: formData.serviceOrderNumber 
                  };
-                 await apiFetch(`/api/records/${updatedRecord.id}`, {
-                     method: 'PUT',
-                     body: JSON.stringify(timestampFixPayload),
-                 });
+                 // O upload também altera o registro: o If-Match vai com a versão atual do servidor.
+                 // Offline a correção fica na fila atrás do upload e vai sem If-Match (a versão ainda vai mudar).
+                 const ifMatch = upload.queued ? null : versionTag((await api.records.get(updatedRecord.id)).version);
+                 await submitMutation({ type: 'updateRecord', recordId: updatedRecord.id, body: timestampFixPayload, ifMatch });
             }
             // --- FIM DA NOVA CORREÇÃO ---
 
+            if (upload.queued) {
+                alert("Sem conexão: as fotos foram guardadas no aparelho e aparecerão aqui depois de enviadas.");
+                return;
+            }
+
             // Busca o registro mais recente (agora com o timestamp corrigido)
-            const freshRecord = await apiFetch(`/api/records/${updatedRecord.id}`);
-            const fullRecord = {
-                ...freshRecord,
-                id: String(freshRecord.id),
-                operatorId: String(freshRecord.operatorId),
-            };
+            const fullRecord = await api.records.get(updatedRecord.id);
             setFormData(fullRecord); 
+            setBaseRecord(fullRecord);
             alert("Fotos adicionadas com sucesso!");
         } catch (err) {
             alert(`Falha ao enviar fotos '${phase === "BEFORE" ? "Antes" : "Depois"}'.`);
@@ -2768,21 +3080,15 @@ const handlePhotoUpload = async (phase: 'BEFORE' | 'AFTER', files: FileList | nu
             const newBefore = isBefore ? (formData.beforePhotos || []).filter(p => p !== photoUrl) : formData.beforePhotos;
             const newAfter = !isBefore ? (formData.afterPhotos || []).filter(p => p !== photoUrl) : formData.afterPhotos;
 
-            // Salva as alterações, incluindo a lista de fotos modificada
-            const updated = await apiFetch(`/api/records/${formData.id}`, {
-                method: "PUT",
-                body: JSON.stringify({
-                    ...formData,
-                    beforePhotos: newBefore,
-                    afterPhotos: newAfter,
-                })
-            });
-             const fullRecord = {
-                ...updated,
-                id: String(updated.id),
-                operatorId: String(updated.operatorId),
-            };
-            setFormData(fullRecord);
+            const { queued, result } = await submitMutation({ type: 'removePhoto', recordId: formData.id, body: { photoUrl } });
+            if (queued) {
+                setFormData(prev => ({ ...prev, beforePhotos: newBefore, afterPhotos: newAfter }));
+                return;
+            }
+            // A remoção só grava as listas de fotos: preserva o que ainda não foi salvo no formulário
+            const fullRecord = { ...result, id: String(result.id), operatorId: String(result.operatorId) };
+            setBaseRecord(fullRecord);
+            setFormData(prev => ({ ...prev, beforePhotos: fullRecord.beforePhotos, afterPhotos: fullRecord.afterPhotos, version: fullRecord.version }));
         } catch (err) {
             alert(`Falha ao remover foto.`);
             console.error(err);
@@ -2796,6 +3102,26 @@ const handlePhotoUpload = async (phase: 'BEFORE' | 'AFTER', files: FileList | nu
         (window as any).viewImage(`${API_BASE}${src}`);
     };
 
+    const handleResolveConflict = async (merged: ServiceRecord, serverVersion: unknown) => {
+        const { queued, result } = await submitMutation({
+            type: 'updateRecord',
+            recordId: formData.id,
+            body: merged,
+            ifMatch: versionTag(serverVersion),
+        });
+        const updated = queued ? merged : result;
+        const fullRecord = { ...updated, id: String(updated.id), operatorId: String(updated.operatorId) };
+        setFormData(fullRecord);
+        if (!queued) setBaseRecord(fullRecord);
+        setHasConflict(false);
+        onSave(fullRecord);
+        alert(queued ? "Sem conexão: a alteração foi guardada no aparelho e será enviada automaticamente." : "Registro atualizado com sucesso!");
+    };
+
+    if (hasConflict) {
+        return <ConflictResolutionView recordId={formData.id} mine={formData} base={baseRecord} onResolve={handleResolveConflict} onCancel={() => setHasConflict(false)} />;
+    }
+
     return (
         <div className="card edit-form-container">
             <h3>{isOperator ? 'Adicionar Fotos/Informações' : 'Editar Registro de Serviço'}</h3>
@@ -2941,8 +3267,19 @@ const handlePhotoUpload = async (phase: 'BEFORE' | 'AFTER', files: FileList | nu
     );
 };
 
-const AuditLogView: React.FC<{ log: AuditLogEntry[] }> = ({ log }) => {
+const AuditLogView: React.FC<{
+    log: AuditLogEntry[];
+    records: ServiceRecord[];
+    onSelectRecord: (record: ServiceRecord) => void;
+}> = ({ log, records, onSelectRecord }) => {
     const [searchTerm, setSearchTerm] = useState('');
+    // Registros com fotos da galeria anteriores ao início do serviço, do mais recente ao mais antigo
+    const recordsForReview = useMemo(() =>
+        records
+            .map(record => ({ record, flagged: getFlaggedPhotos(record) }))
+            .filter(({ flagged }) => flagged.length > 0)
+            .sort((a, b) => new Date(b.record.startTime).getTime() - new Date(a.record.startTime).getTime()),
+    [records]);
     const [currentPage, setCurrentPage] = useState(1);
     const ITEMS_PER_PAGE = 10;
 
@@ -3003,6 +3340,23 @@ const AuditLogView: React.FC<{ log: AuditLogEntry[] }> = ({ log }) => {
                 </button>
             </div>
 
+            {recordsForReview.length > 0 && (
+                <div className="photo-review-section">
+                    <h3>⚠️ Fotos para revisão ({recordsForReview.length} registro(s))</h3>
+                    <p>Fotos escolhidas da galeria com arquivo anterior ao início do serviço.</p>
+                    <ul className="audit-log-list">
+                        {recordsForReview.map(({ record, flagged }) => (
+                            <li key={record.id} className="audit-log-item">
+                                <p><strong>Registro {record.id}:</strong> {record.locationName}, {record.contractGroup} — {record.serviceType}</p>
+                                <p><strong>Operador:</strong> {record.operatorName} · <strong>Início:</strong> {formatDateTime(record.startTime)}</p>
+                                <p><strong>Fotos:</strong> {flagged.map(photo => `${photo.phase === 'BEFORE' ? 'Antes' : 'Depois'} (arquivo de ${photo.metadata.fileLastModified ? formatDateTime(photo.metadata.fileLastModified) : 'data desconhecida'})`).join('; ')}</p>
+                                <button className="button button-sm admin-button" onClick={() => onSelectRecord(record)}>Ver registro</button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             <SearchBar value={searchTerm} onChange={setSearchTerm} placeholder="Buscar por usuário, detalhes ou ID..." />
 
             {currentLogs.length === 0 ? (
@@ -3039,17 +3393,19 @@ const ManageServicesView: React.FC<{
     const [unitName, setUnitName] = useState('');
     const [unitSymbol, setUnitSymbol] = useState('');
     const [editingUnitId, setEditingUnitId] = useState<string | null>(null);
+    const [unitErrors, setUnitErrors] = useState<FormErrors>(NO_FORM_ERRORS);
+    const [serviceErrors, setServiceErrors] = useState<FormErrors>(NO_FORM_ERRORS);
     
     const [isLoading, setIsLoading] = useState(false);
 
     useEffect(() => {
         const fetchUnits = async () => {
             try {
-                const fetchedUnits = await apiFetch('/api/units');
-                setUnits(fetchedUnits);
+                setUnits(await api.units.list({ signal: viewSignal() }));
             } catch (error) {
+                if (isAbortError(error)) return;
                 console.error("Failed to fetch units", error);
-                alert("Não foi possível carregar as unidades de medida.");
+                alert(describeApiError(error, "Não foi possível carregar as unidades de medida."));
             }
         };
         fetchUnits();
@@ -3059,6 +3415,7 @@ const ManageServicesView: React.FC<{
         setUnitName('');
         setUnitSymbol('');
         setEditingUnitId(null);
+        setUnitErrors(NO_FORM_ERRORS);
     };
 
     const handleSaveUnit = async () => {
@@ -3067,20 +3424,20 @@ const ManageServicesView: React.FC<{
             return;
         }
         setIsLoading(true);
+        setUnitErrors(NO_FORM_ERRORS);
         try {
             const payload = { name: unitName.toUpperCase(), symbol: unitSymbol.toUpperCase() }; // Caixa alta
             if (editingUnitId) {
-                await apiFetch(`/api/units/${editingUnitId}`, { method: 'PUT', body: JSON.stringify(payload) });
+                await api.units.update(editingUnitId, payload);
             } else {
-                await apiFetch('/api/units', { method: 'POST', body: JSON.stringify(payload) });
+                await api.units.create(payload);
             }
             resetUnitForm();
             await fetchData();
-            const fetchedUnits = await apiFetch('/api/units');
-            setUnits(fetchedUnits);
+            setUnits(await api.units.list());
 
         } catch (error) {
-            alert('Falha ao salvar a unidade.');
+            setUnitErrors(toFormErrors(error, 'Falha ao salvar a unidade.', { 409: 'Já existe uma unidade com este nome ou símbolo.' }));
         } finally {
             setIsLoading(false);
         }
@@ -3090,18 +3447,18 @@ const ManageServicesView: React.FC<{
         setEditingUnitId(unit.id);
         setUnitName(unit.name);
         setUnitSymbol(unit.symbol);
+        setUnitErrors(NO_FORM_ERRORS);
     };
     
     const handleDeleteUnit = async (id: string) => {
         if (window.confirm('Excluir esta unidade? Ela não pode estar em uso por nenhum serviço.')) {
             setIsLoading(true);
             try {
-                await apiFetch(`/api/units/${id}`, { method: 'DELETE' });
+                await api.units.remove(id);
                 await fetchData();
-                const fetchedUnits = await apiFetch('/api/units');
-                setUnits(fetchedUnits);
-            } catch (error: any) {
-                alert(`Falha ao excluir: ${error.message}`);
+                setUnits(await api.units.list());
+            } catch (error) {
+                alert(describeApiError(error, 'Falha ao excluir a unidade.', { 409: 'Esta unidade está em uso por um ou mais serviços e não pode ser excluída.' }));
             } finally {
                 setIsLoading(false);
             }
@@ -3112,6 +3469,7 @@ const ManageServicesView: React.FC<{
         setServiceName('');
         setSelectedUnitId('');
         setEditingServiceId(null);
+        setServiceErrors(NO_FORM_ERRORS);
     };
 
     const handleSaveService = async () => {
@@ -3120,17 +3478,18 @@ const ManageServicesView: React.FC<{
             return;
         }
         setIsLoading(true);
+        setServiceErrors(NO_FORM_ERRORS);
         try {
             const payload = { name: serviceName.toUpperCase(), unitId: parseInt(selectedUnitId) }; // Caixa alta
             if (editingServiceId) {
-                await apiFetch(`/api/services/${editingServiceId}`, { method: 'PUT', body: JSON.stringify(payload) });
+                await api.services.update(editingServiceId, payload);
             } else {
-                await apiFetch('/api/services', { method: 'POST', body: JSON.stringify(payload) });
+                await api.services.create(payload);
             }
             resetServiceForm();
             await fetchData();
         } catch (error) {
-            alert('Falha ao salvar o serviço.');
+            setServiceErrors(toFormErrors(error, 'Falha ao salvar o serviço.', { 409: 'Já existe um serviço com este nome.' }));
         } finally {
             setIsLoading(false);
         }
@@ -3140,16 +3499,17 @@ const ManageServicesView: React.FC<{
         setEditingServiceId(service.id);
         setServiceName(service.name);
         setSelectedUnitId(String(service.unitId));
+        setServiceErrors(NO_FORM_ERRORS);
     };
 
     const handleDeleteService = async (id: string) => {
         if (window.confirm('Excluir este tipo de serviço?')) {
             setIsLoading(true);
             try {
-                await apiFetch(`/api/services/${id}`, { method: 'DELETE' });
+                await api.services.remove(id);
                 await fetchData();
-            } catch (error: any) {
-                 alert(`Falha ao excluir: ${error.message}`);
+            } catch (error) {
+                 alert(describeApiError(error, 'Falha ao excluir o serviço.', { 409: 'Este serviço está em uso em locais ou registros e não pode ser excluído.' }));
             } finally {
                 setIsLoading(false);
             }
@@ -3168,6 +3528,9 @@ const ManageServicesView: React.FC<{
                     </button>
                     {editingUnitId && <button className="button button-secondary" onClick={resetUnitForm}>Cancelar</button>}
                 </div>
+                <FieldError message={unitErrors.fields.name} />
+                <FieldError message={unitErrors.fields.symbol} />
+                <FormErrorMessage errors={unitErrors} />
                 <ul className="location-list" style={{marginTop: '1.5rem'}}>
                     {units.map(u => (
                         <li key={u.id} className="service-definition-item">
@@ -3198,6 +3561,9 @@ const ManageServicesView: React.FC<{
                     </button>
                     {editingServiceId && <button className="button button-secondary" onClick={resetServiceForm}>Cancelar</button>}
                 </div>
+                <FieldError message={serviceErrors.fields.name} />
+                <FieldError message={serviceErrors.fields.unitId} />
+                <FormErrorMessage errors={serviceErrors} />
                 <ul className="location-list" style={{marginTop: '1.5rem'}}>
                     {services.sort((a, b) => a.name.localeCompare(b.name)).map(s => (
                         <li key={s.id} className="service-definition-item">
@@ -3214,17 +3580,17 @@ const ManageServicesView: React.FC<{
     );
 };
 
-// --- Função auxiliar para determinar a view inicial ---
-const getInitialView = (): View => {
-    const path = window.location.pathname;
-    if (path.endsWith('/reset-password')) return 'RESET_PASSWORD';
-    if (path.endsWith('/forgot-password')) return 'FORGOT_PASSWORD';
-    return 'LOGIN';
-};
+// --- Rota atual a partir da URL ("/" e caminhos desconhecidos abrem o login, que redireciona para a tela inicial do perfil) ---
+const getCurrentRoute = (): Route =>
+    matchRoute(window.location.pathname, window.location.search) || { view: 'LOGIN', params: {} };
+
+// Profundidade da entrada atual no histórico do navegador: 0 = primeira tela aberta no app
+const historyDepth = (): number => window.history.state?.depth ?? 0;
 
 // --- Componente Principal ---
 const App = () => {
-    const [view, setView] = useState<View>(getInitialView());
+    const [route, setRoute] = useState<Route>(getCurrentRoute);
+    const view = route.view;
     const [currentUser, setCurrentUser] = useLocalStorage<User | null>('crbCurrentUser', null);
     const [users, setUsers] = useState<User[]>([]);
     const [locations, setLocations] = useState<LocationRecord[]>([]);
@@ -3236,9 +3602,16 @@ const App = () => {
     const [selectedRecord, setSelectedRecord] = useState<ServiceRecord | null>(null);
     const [selectedContractGroup, setSelectedContractGroup] = useState<string | null>(null);
     const [selectedLocation, setSelectedLocation] = useState<(LocationRecord & { _gpsUsed?: boolean }) | null>(null);
-    const [history, setHistory] = useState<View[]>([]);
     const [isLoading, setIsLoading] = useState<string | null>(null);
     const [selectedRecordIds, setSelectedRecordIds] = useState<Set<string>>(new Set());
+    const [pendingSyncCount, setPendingSyncCount] = useState(0);
+    // Quando os cadastros foram atualizados pela última vez e se a última atualização falhou (dados do cache)
+    const [referenceUpdatedAt, setReferenceUpdatedAt] = useState<number | null>(null);
+    const [isReferenceStale, setIsReferenceStale] = useState(false);
+    // 401 sem renovação possível: mostra o modal de novo login por cima da tela atual
+    const [isSessionExpired, setIsSessionExpired] = useState(false);
+    // Alguma requisição está demorando (2G, sinal fraco)
+    const [isConnectionSlow, setIsConnectionSlow] = useState(false);
     
     // CORREÇÃO 1: Estados para o ImageViewer
     const [isViewingImage, setIsViewingImage] = useState(false);
@@ -3266,6 +3639,24 @@ const App = () => {
         setViewingImageSrc('');
     };
     
+    useEffect(() => {
+        onSessionExpired(() => setIsSessionExpired(true));
+        return () => onSessionExpired(null);
+    }, []);
+
+    useEffect(() => onConnectionSlow(setIsConnectionSlow), []);
+
+    // Saiu da tela: as leituras que ela começou (com viewSignal) não interessam mais
+    useEffect(() => () => cancelViewRequests(), [view]);
+
+    // Sem usuário salvo não há o que preservar: as requisições pendentes falham e a tela de login segue normal
+    useEffect(() => {
+        if (isSessionExpired && !currentUser) {
+            setIsSessionExpired(false);
+            setApiToken(null);
+        }
+    }, [isSessionExpired, currentUser]);
+
     // CORREÇÃO 1: Expõe a função para uso nos componentes aninhados (AdminEditRecordView)
     useEffect(() => {
         (window as any).viewImage = handleViewImage;
@@ -3283,17 +3674,14 @@ const App = () => {
     const addAuditLogEntry = async (action: 'UPDATE' | 'DELETE' | 'ADJUST_MEASUREMENT', details: string, recordId?: string) => {
         if (!currentUser || currentUser.role !== 'ADMIN') return;
         try {
-            await apiFetch('/api/auditlog', {
-                method: 'POST',
-                body: JSON.stringify({ action, recordId: recordId ? parseInt(recordId) : 0, details })
-            });
+            await api.auditLog.add(action, details, recordId);
             await fetchAuditLog();
         } catch (error) { console.error("Failed to add audit log entry", error); }
     };
     
     const fetchAuditLog = async () => {
         if (currentUser?.role !== 'ADMIN') return;
-        try { setAuditLog(await apiFetch('/api/auditlog')); }
+        try { setAuditLog(await api.auditLog.list()); }
         catch (error) { console.error("Failed to fetch audit log", error); }
     };
 
@@ -3301,10 +3689,13 @@ const App = () => {
         if (selectedRecordIds.size === 0 || !window.confirm(`Tem certeza que deseja excluir os ${selectedRecordIds.size} registros selecionados?`)) return;
         setIsLoading("Excluindo registros...");
         try {
-            await Promise.all(Array.from(selectedRecordIds).map(id => apiFetch(`/api/records/${id}`, { method: 'DELETE' })));
+            const results = await Promise.all(Array.from(selectedRecordIds).map(id => submitMutation({ type: 'deleteRecord', recordId: id })));
             setRecords(prev => prev.filter(r => !selectedRecordIds.has(r.id)));
+            await applyRecordChanges([], Array.from(selectedRecordIds));
             setSelectedRecordIds(new Set());
-            alert("Registros excluídos com sucesso.");
+            alert(results.some(r => r.queued)
+                ? "Sem conexão: os registros foram removidos da lista e a exclusão será enviada automaticamente."
+                : "Registros excluídos com sucesso.");
         } catch (e) {
             alert("Falha ao excluir um ou mais registros.");
             console.error(e);
@@ -3320,94 +3711,203 @@ const App = () => {
         return () => window.removeEventListener('syncSuccess', handleSyncSuccess);
     }, [setCurrentService]);
 
-    const navigate = (newView: View, replace = false) => {
-        if (['ADMIN_DASHBOARD', 'FISCAL_DASHBOARD', 'OPERATOR_GROUP_SELECT', 'LOGIN'].includes(newView)) {
-            window.history.pushState({}, '', '/');
-            setHistory([]);
+    // Se o registro sincronizou com o app fechado, o evento acima se perdeu: recupera o ID real do mapeamento
+    useEffect(() => {
+        const { id, tempId } = currentService;
+        if (!tempId || id !== tempId) return;
+        resolveRecordId(tempId).then(serverId => {
+            if (serverId !== tempId) {
+                setCurrentService(prev => prev.tempId === tempId ? { ...prev, id: serverId } : prev);
+            }
+        }).catch(err => console.warn("Falha ao resolver ID do registro:", err));
+    }, [currentService.tempId]);
+
+    // Contador de registros ainda na fila local, exibido no Header
+    useEffect(() => {
+        const refreshPendingCount = () => {
+            countPendingWork().then(setPendingSyncCount).catch(err => console.error("Falha ao ler a fila:", err));
+        };
+        refreshPendingCount();
+        window.addEventListener(SYNC_STATUS_EVENT, refreshPendingCount);
+        return () => window.removeEventListener(SYNC_STATUS_EVENT, refreshPendingCount);
+    }, []);
+
+    const navigate = (newView: View, replace = false, params: RouteParams = {}) => {
+        const url = routePath(newView, params);
+        if (replace) {
+            window.history.replaceState({ depth: historyDepth() }, '', url);
         } else {
-            if (!replace) setHistory(h => [...h, view]);
+            window.history.pushState({ depth: historyDepth() + 1 }, '', url);
         }
-        setView(newView);
+        setRoute({ view: newView, params });
     }
 
+    // Voltar do Header = voltar do navegador, enquanto houver tela anterior dentro do app
     const handleBack = () => {
-        const lastView = history.pop();
-        if (lastView) {
-            setHistory([...history]);
-            setView(lastView);
+        if (historyDepth() > 0) {
+            window.history.back();
         } else if (currentUser) {
             redirectUser(currentUser);
         }
     }
     
-    const redirectUser = (user: User) => {
-        if (user.role === 'ADMIN') navigate('ADMIN_DASHBOARD', true);
-        else if (user.role === 'OPERATOR') navigate('OPERATOR_GROUP_SELECT', true);
-        else if (user.role === 'FISCAL') navigate('FISCAL_DASHBOARD', true);
-    };
+    const redirectUser = (user: User) => navigate(homeView(user), true);
+
+    // Marca a entrada inicial e acompanha voltar/avançar do navegador
+    useEffect(() => {
+        window.history.replaceState({ depth: historyDepth() }, '', window.location.href);
+        const handlePopState = () => setRoute(getCurrentRoute());
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    // Guarda de rota: logado no /login ou numa tela de outro perfil vai para a tela inicial
+    useEffect(() => {
+        if (currentUser && (view === 'LOGIN' || !canAccess(view, currentUser))) redirectUser(currentUser);
+    }, [view, currentUser]);
+
+    // Contrato e local do fluxo do operador também vêm da URL (recarregar a página, voltar/avançar)
+    useEffect(() => {
+        const { group, location } = route.params;
+        if (group && group !== selectedContractGroup) setSelectedContractGroup(group);
+        if (location && location !== selectedLocation?.id) {
+            const found = locations.find(l => l.id === location);
+            if (found) setSelectedLocation({ ...found, _gpsUsed: false });
+        }
+    }, [route, locations]);
+
+    // Link direto para um registro (/records/:id): carrega o registro se ainda não está selecionado
+    useEffect(() => {
+        const { id } = route.params;
+        if (!currentUser || !id || (view !== 'DETAIL' && view !== 'ADMIN_EDIT_RECORD') || selectedRecord?.id === id) return;
+        setIsLoading("Carregando registro...");
+        api.records.get(id, { signal: viewSignal() })
+            .then(setSelectedRecord)
+            .catch(error => {
+                if (isAbortError(error)) return;
+                console.warn("Falha ao carregar o registro do link", error);
+                // Sem conexão: usa a cópia local, se houver
+                setSelectedRecord(records.find(r => r.id === id) || null);
+            })
+            .finally(() => setIsLoading(null));
+    }, [view, route.params.id, currentUser]);
 
     const handleLogout = () => {
+         setIsSessionExpired(false);
          setCurrentUser(null);
          setApiToken(null);
-         setHistory([]);
          setSelectedContractGroup(null);
          setSelectedLocation(null);
          setCurrentService({});
          setLocations([]);
          setRecords([]);
          setUsers([]);
+         setReferenceUpdatedAt(null);
+         Promise.all([clearCachedDatasets(), clearLocalRecords()]).catch(error => console.warn("Falha ao limpar cache local", error));
          navigate('LOGIN', true);
     }
 
+    // Serve locais, serviços e ciclos do IndexedDB imediatamente; retorna se havia cache
+    const loadCachedReferenceData = async () => {
+        try {
+            const [cachedLocs, cachedSrvs, cachedConfigs] = await Promise.all([
+                getCachedDataset<LocationRecord>('locations'),
+                getCachedDataset<ServiceDefinition>('services'),
+                getCachedDataset<ContractConfig>('contractConfigs'),
+            ]);
+            if (!cachedLocs || !cachedSrvs) return false;
+            setLocations(cachedLocs.items);
+            setServices(cachedSrvs.items);
+            setContractConfigs(cachedConfigs?.items || []);
+            setReferenceUpdatedAt(Math.min(cachedLocs.updatedAt, cachedSrvs.updatedAt));
+            return true;
+        } catch (error) {
+            console.warn("Falha ao ler cadastros do cache local", error);
+            return false;
+        }
+    };
+
+    const loadLocalRecords = async () => {
+        if (!currentUser) return;
+        try {
+            setRecords(filterRecordsForUser(await getLocalRecords(), currentUser));
+        } catch (error) {
+            console.warn("Falha ao ler registros do cache local", error);
+        }
+    };
+
     const fetchData = async () => {
         if (!currentUser) return;
-        setIsLoading('Carregando dados...');
+        const hasCache = await loadCachedReferenceData();
+        await loadLocalRecords();
+        // Com cache a tela já abre com dados; a atualização segue em segundo plano
+        if (!hasCache) setIsLoading('Carregando dados...');
         try {
-            const [locs, recs, srvs, configs, usrs, logs] = await Promise.all([
-                apiFetch(`/api/locations?t=${Date.now()}`),
-                apiFetch(`/api/records?t=${Date.now()}`),
-                apiFetch(`/api/services?t=${Date.now()}`),
-                apiFetch('/api/contract-configs'),
-                currentUser.role === 'ADMIN' ? apiFetch('/api/users') : Promise.resolve(null),
-                currentUser.role === 'ADMIN' ? apiFetch('/api/auditlog') : Promise.resolve(null),
+            const [mappedLocations, mappedServices, configs] = await Promise.all([
+                api.locations.list(),
+                api.services.list(),
+                api.contractConfigs.list(),
+            ]);
+
+            setLocations(mappedLocations);
+            setServices(mappedServices);
+            setContractConfigs(configs);
+            setReferenceUpdatedAt(Date.now());
+            setIsReferenceStale(false);
+            await Promise.all([
+                putCachedDataset('locations', mappedLocations),
+                putCachedDataset('services', mappedServices),
+                putCachedDataset('contractConfigs', configs),
+            ]).catch(error => console.warn("Falha ao salvar cadastros no cache local", error));
+
+            const [recs, usrs, logs] = await Promise.all([
+                syncRecordsDelta(),
+                currentUser.role === 'ADMIN' ? api.users.list() : Promise.resolve(null),
+                currentUser.role === 'ADMIN' ? api.auditLog.list() : Promise.resolve(null),
             ]);
-            
-            setLocations(locs.map((l: any) => ({ ...l, id: String(l.id), isGroup: !!l.isGroup, parentId: l.parentId ? String(l.parentId) : null, services: (l.services || []).map((s: any) => ({ ...s, serviceId: String(s.serviceId) })) })));
-            setServices(srvs.map((s: any) => ({...s, id: String(s.id), unitId: String(s.unitId) })));
-            setContractConfigs(configs || []);
-            
-            const mapRecord = (r: any) => ({ ...r, id: String(r.id), operatorId: String(r.operatorId), locationId: r.locationId ? String(r.locationId) : undefined });
 
+            setRecords(filterRecordsForUser(recs, currentUser));
             if (currentUser.role === 'ADMIN') {
-                setRecords(recs.map(mapRecord));
-                if (usrs) setUsers(usrs.map((u: any) => ({...u, id: String(u.id), username: u.name })));
+                if (usrs) setUsers(usrs);
                 if(logs) setAuditLog(logs);
-            } else if (currentUser.role === 'OPERATOR') {
-                setRecords(recs.filter((r: any) => String(r.operatorId) === String(currentUser.id)).map(mapRecord));
-            } else {
-                const fiscalGroups = new Set(currentUser.assignments?.map(a => a.contractGroup) || []);
-                setRecords(recs.filter((r: any) => fiscalGroups.has(r.contractGroup)).map(mapRecord));
             }
         } catch (error) {
             console.error("Failed to fetch data", error);
-            alert("Não foi possível carregar os dados do servidor.");
-            handleLogout();
+            if (error instanceof ApiError && error.status === 401) {
+                // O usuário saiu pelo modal de sessão expirada: o logout já foi feito
+            } else if (hasCache) {
+                // Sem sinal (ou servidor fora): segue com os dados salvos no aparelho
+                setIsReferenceStale(true);
+            } else if (isNetworkError(error)) {
+                setIsReferenceStale(true);
+                alert("Sem conexão e sem dados salvos neste aparelho. Conecte-se para carregar os cadastros.");
+            } else {
+                alert("Não foi possível carregar os dados do servidor.");
+                handleLogout();
+            }
         } finally { setIsLoading(null); }
     };
 
     useEffect(() => {
         if (view === 'RESET_PASSWORD' || view === 'FORGOT_PASSWORD') return;
         const restoreSession = async () => {
-            if (API_TOKEN) {
+            const token = getApiToken();
+            if (token) {
+                // Sessões abertas antes do service worker ainda não têm o token no IndexedDB
+                saveSessionToken(token).catch(err => console.warn("Falha ao salvar token para o service worker:", err));
                 setIsLoading("Verificando sessão...");
                 try {
-                    const me = await apiFetch('/api/auth/me');
-                    const user: User = { id: String(me.id), username: me.name, email: me.email, role: me.role, assignments: me.assignments || [] };
+                    const user = await api.auth.me();
                     setCurrentUser(user);
                     if (view === 'LOGIN') redirectUser(user);
                 } catch (error) {
                     console.error("Session restore failed", error);
-                    handleLogout();
+                    // Offline não invalida a sessão: continua com o usuário salvo e os dados do cache
+                    if (isNetworkError(error) && currentUser) {
+                        if (view === 'LOGIN') redirectUser(currentUser);
+                    } else {
+                        handleLogout();
+                    }
                 } finally { setIsLoading(null); }
             }
         };
@@ -3416,6 +3916,14 @@ const App = () => {
 
     useEffect(() => { if (currentUser) { fetchData(); } }, [currentUser]);
 
+    // Atualiza os cadastros em segundo plano quando o sinal volta
+    useEffect(() => {
+        if (!currentUser) return;
+        const handleOnline = () => { fetchData(); };
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, [currentUser]);
+
     const resetService = () => {
         setCurrentService({});
         setSelectedContractGroup(null);
@@ -3423,19 +3931,26 @@ const App = () => {
         if(currentUser) redirectUser(currentUser);
     }
 
+    // A fila de sincronização ficou pausada enquanto a sessão estava expirada
+    const handleRelogin = () => {
+        setIsSessionExpired(false);
+        trySync();
+    };
+
     const handleLogin = (user: User) => {
         setCurrentUser(user);
-        redirectUser(user);
+        // Link direto aberto antes do login: segue para ele se o perfil puder
+        if (isPublicView(view) || !canAccess(view, user)) redirectUser(user);
     };
 
     const handleGroupSelect = (group: string) => {
         setSelectedContractGroup(group);
-        navigate('OPERATOR_LOCATION_SELECT');
+        navigate('OPERATOR_LOCATION_SELECT', false, { group });
     }
 
     const handleLocationSelect = (location: LocationRecord, gpsUsed: boolean) => {
         setSelectedLocation({ ...location, _gpsUsed: gpsUsed });
-        navigate('OPERATOR_SERVICE_SELECT');
+        navigate('OPERATOR_SERVICE_SELECT', false, { group: location.contractGroup, location: location.id });
     };
 
     const startNewServiceRecord = (service: ServiceDefinition, measurement?: number) => {
@@ -3514,12 +4029,13 @@ const App = () => {
         }
     };
     
-const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: string) => {
+const handleBeforePhotos = async (photosBefore: StampedPhoto[], serviceOrderNumber?: string) => {
         setIsLoading("Salvando fotos...");
         try {
             // 1. Tenta pegar o ID do estado atual
             let recordId = currentService.id && !currentService.tempId ? currentService.id : currentService.tempId;
             let isEditing = !!recordId;
+            let startTime = currentService.startTime;
 
             // --- TRAVA DE SEGURANÇA CONTRA DUPLICAÇÃO ---
             // Se o app acha que é novo (isEditing = false), vamos conferir no banco se não é engano.
@@ -3537,6 +4053,7 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
                     // Força o uso do registro existente
                     recordId = existingDraft.payload.tempId;
                     isEditing = true;
+                    startTime = existingDraft.payload.startTime;
                     
                     // Atualiza o estado atual para o app "lembrar" dele
                     setCurrentService(prev => ({
@@ -3552,38 +4069,39 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
             // ---------------------------------------------
 
             const newFiles = photosBefore.map((p, i) => 
-                dataURLtoFile(p, `before_append_${Date.now()}_${i}.jpg`)
+                dataURLtoFile(p.dataUrl, `before_append_${Date.now()}_${i}.jpg`)
             );
+            // Registro novo começa agora; fotos da galeria anteriores a isso ficam marcadas para revisão
+            startTime = startTime || new Date().toISOString();
+            const photoMetadata = metadataForUpload(photosBefore, startTime);
+            const photoUrls = photosBefore.map(p => p.dataUrl);
 
             if (isEditing && recordId) { // Verifica recordId novamente pois a trava pode ter mudado ele
                 // --- MODO ADIÇÃO (Anexar ao existente) ---
                 
-                // Verifica se é ID de servidor (número/string curto) ou TempId (UUID longo)
-                const isServerId = currentService.id && !currentService.tempId && !recordId.includes("-"); // verificação simples
-
-                if (isServerId) {
-                    // Online: Manda pra API
-                    const fd = new FormData();
-                    fd.append("phase", "BEFORE");
-                    newFiles.forEach(f => fd.append("files", f));
-                    
-                    // Também envia a O.S. atualizada, se houver
-                    if (serviceOrderNumber) {
-                         await apiFetch(`/api/records/${currentService.id}`, { 
-                            method: 'PUT', 
-                            body: JSON.stringify({ serviceOrderNumber: serviceOrderNumber.toUpperCase() }) 
-                         });
-                    }
+                // Nova leitura do local a cada etapa "Antes", como na criação
+                setIsLoading("Conferindo a localização...");
+                const locationCoords = currentService.coords || locations.find(l => l.id === currentService.locationId)?.coords;
+                const geofenceRadius = currentService.geofenceRadius || geofenceRadiusFor(currentService.contractGroup, contractConfigs);
+                const beforePosition = await verifyPosition(locationCoords, geofenceRadius);
+                const geofenceChanges = {
+                    beforePosition,
+                    geofenceRadius,
+                    geofenceStatus: combineGeofence([beforePosition, currentService.afterPosition]),
+                };
+                setIsLoading("Salvando fotos...");
 
-                    await apiFetch(`/api/records/${currentService.id}/photos`, { method: 'POST', body: fd });
-                } else {
-                    // Offline/Pendente: Atualiza no IndexedDB usando o ID recuperado
-                    await addBeforePhotosToPending(recordId, newFiles, serviceOrderNumber?.toUpperCase());
-                }
+                // Registro pendente: atualiza no IndexedDB; já no servidor: envia as fotos e os dados direto
+                // (a O.S. atualizada, se houver, vai junto com a conferência do local)
+                await addBeforePhotosToPending(recordId, newFiles, {
+                    ...geofenceChanges,
+                    ...(serviceOrderNumber ? { serviceOrderNumber: serviceOrderNumber.toUpperCase() } : {}),
+                }, photoMetadata);
 
                 setCurrentService(prev => ({
                     ...prev,
-                    beforePhotos: [...(prev.beforePhotos || []), ...photosBefore],
+                    ...geofenceChanges,
+                    beforePhotos: [...(prev.beforePhotos || []), ...photoUrls],
                     serviceOrderNumber: serviceOrderNumber?.toUpperCase() || prev.serviceOrderNumber
                 }));
 
@@ -3595,6 +4113,11 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
                 const newTempId = crypto.randomUUID();
                 const { serviceId, serviceType, serviceUnit, locationId, locationName, contractGroup, locationArea, gpsUsed, coords } = currentService;
 
+                setIsLoading("Conferindo a localização...");
+                const geofenceRadius = geofenceRadiusFor(contractGroup, contractConfigs);
+                const beforePosition = await verifyPosition(coords, geofenceRadius);
+                setIsLoading("Salvando fotos...");
+
                 const recordPayload = {
                     operatorId: currentUser!.id,
                     serviceId,
@@ -3605,8 +4128,11 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
                     contractGroup,
                     locationArea,
                     gpsUsed: !!gpsUsed,
-                    startTime: new Date().toISOString(),
+                    startTime,
                     serviceOrderNumber: serviceOrderNumber?.trim().toUpperCase() || undefined,
+                    beforePosition,
+                    geofenceRadius,
+                    geofenceStatus: combineGeofence([beforePosition]),
                     tempId: newTempId,
                     newLocationInfo: !locationId ? {
                         name: locationName,
@@ -3619,35 +4145,49 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
                 };
 
                 // Cria o registro novo
-                await queueRecord(recordPayload, newFiles);
+                await queueRecord(recordPayload, newFiles, photoMetadata);
 
                 setCurrentService(prev => ({
                     ...prev,
                     ...recordPayload,
                     id: newTempId,
                     tempId: newTempId,
-                    beforePhotos: photosBefore
+                    beforePhotos: photoUrls
                 }));
 
                 navigate('OPERATOR_SERVICE_IN_PROGRESS');
             }
         } catch (err) {
             console.error("Falha ao salvar registro:", err);
-            alert("Falha ao salvar. Tente novamente.");
+            alert(err instanceof StorageFullError
+                ? "Sem espaço no aparelho para guardar as fotos. Sincronize ou descarte registros pendentes e tente novamente."
+                : "Falha ao salvar. Tente novamente.");
         } finally {
             setIsLoading(null);
         }
     };
 
-    const handleAfterPhotos = async (photosAfter: string[]) => {
-        setIsLoading("Salvando fotos 'Depois'...");
+    const handleAfterPhotos = async (photosAfter: StampedPhoto[]) => {
+        setIsLoading("Conferindo a localização...");
         try {
-            const afterFiles = photosAfter.map((p, i) => dataURLtoFile(p, `after_${i}.jpg`));
-            await addAfterPhotosToPending(currentService.id || currentService.tempId!, afterFiles);
+            // Registro reaberto do histórico não traz as coordenadas do local: busca no cadastro
+            const locationCoords = currentService.coords || locations.find(l => l.id === currentService.locationId)?.coords;
+            const geofenceRadius = currentService.geofenceRadius || geofenceRadiusFor(currentService.contractGroup, contractConfigs);
+            const afterPosition = await verifyPosition(locationCoords, geofenceRadius);
+
+            setIsLoading("Salvando fotos 'Depois'...");
+            const afterFiles = photosAfter.map((p, i) => dataURLtoFile(p.dataUrl, `after_${i}.jpg`));
+            await addAfterPhotosToPending(currentService.id || currentService.tempId!, afterFiles, {
+                afterPosition,
+                geofenceRadius,
+                geofenceStatus: combineGeofence([currentService.beforePosition, afterPosition]),
+            }, metadataForUpload(photosAfter, currentService.startTime));
             navigate('CONFIRM_STEP');
         } catch (err) {
             console.error(err);
-            alert("Falha ao salvar fotos localmente.");
+            alert(err instanceof StorageFullError
+                ? "Sem espaço no aparelho para guardar as fotos. Sincronize ou descarte registros pendentes e tente novamente."
+                : "Falha ao salvar fotos localmente.");
         } finally { setIsLoading(null); }
     };
 
@@ -3660,10 +4200,10 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
     const handleSelectRecord = async (record: ServiceRecord) => {
         setIsLoading("Carregando detalhes...");
         try {
-            const detailedRecord = await apiFetch(`/api/records/${record.id}`);
-            setSelectedRecord({ ...detailedRecord, id: String(detailedRecord.id), operatorId: String(detailedRecord.operatorId) });
-            navigate('DETAIL');
+            setSelectedRecord(await api.records.get(record.id, { signal: viewSignal() }));
+            navigate('DETAIL', false, { id: record.id });
         } catch (e) {
+            if (isAbortError(e)) return;
             alert('Não foi possível carregar os detalhes do registro.');
         } finally { setIsLoading(null); }
     }
@@ -3671,16 +4211,19 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
     const handleEditRecord = async (record: ServiceRecord) => {
         setIsLoading("Carregando registro para edição...");
         try {
-            const detailedRecord = await apiFetch(`/api/records/${record.id}`);
-            setSelectedRecord({ ...detailedRecord, id: String(detailedRecord.id), operatorId: String(detailedRecord.operatorId) });
-            navigate('ADMIN_EDIT_RECORD');
+            setSelectedRecord(await api.records.get(record.id, { signal: viewSignal() }));
+            navigate('ADMIN_EDIT_RECORD', false, { id: record.id });
         } catch(e) {
+            if (isAbortError(e)) return;
              alert('Não foi possível carregar o registro para edição.');
         } finally { setIsLoading(null); }
     };
 
     const handleUpdateRecord = (updatedRecord: ServiceRecord) => {
         setRecords(prev => prev.map(r => r.id === updatedRecord.id ? { ...r, ...updatedRecord } : r));
+        // Mantém a cópia local coerente mesmo que a alteração ainda esteja na outbox
+        const current = records.find(r => r.id === updatedRecord.id);
+        if (current) applyRecordChanges([{ ...current, ...updatedRecord }]).catch(err => console.warn("Falha ao atualizar cópia local:", err));
         handleBack();
     };
 
@@ -3690,9 +4233,10 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
         if (recordToDelete && window.confirm(`Tem certeza que deseja excluir o registro do local "${recordToDelete.locationName}"?`)) {
             try {
                 setIsLoading("Excluindo registro...");
-                await apiFetch(`/api/records/${recordId}`, { method: 'DELETE' });
+                const { queued } = await submitMutation({ type: 'deleteRecord', recordId });
                 setRecords(prev => prev.filter(r => r.id !== recordId));
-                alert("Registro excluído com sucesso.");
+                await applyRecordChanges([], [recordId]);
+                alert(queued ? "Sem conexão: o registro foi removido da lista e a exclusão será enviada automaticamente." : "Registro excluído com sucesso.");
             } catch(e) {
                 alert("Falha ao excluir o registro.");
             } finally { setIsLoading(null); }
@@ -3702,11 +4246,15 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
     const handleMeasurementUpdate = async (recordId: number, newMeasurementValue: string) => {
         setIsLoading("Ajustando medição...");
         try {
-            const response = await apiFetch(`/api/records/${recordId}/measurement`, {
-                method: 'PUT',
-                body: JSON.stringify({ overrideMeasurement: newMeasurementValue }),
+            const { queued, result } = await submitMutation({
+                type: 'adjustMeasurement',
+                recordId: String(recordId),
+                body: { overrideMeasurement: newMeasurementValue },
             });
+            const response = queued ? { overrideMeasurement: parseFloat(newMeasurementValue) } : result;
             setRecords(prevRecords => prevRecords.map(r => r.id === String(recordId) ? { ...r, ...response } : r));
+            const current = records.find(r => r.id === String(recordId));
+            if (current) await applyRecordChanges([{ ...current, ...response }]);
             addAuditLogEntry('ADJUST_MEASUREMENT', `Medição do registro ${recordId} ajustada para ${newMeasurementValue}`, String(recordId));
         } catch (error) {
             console.error("Erro ao salvar medição:", error);
@@ -3718,68 +4266,69 @@ const handleBeforePhotos = async (photosBefore: string[], serviceOrderNumber?: s
         if (view === 'RESET_PASSWORD') return <ResetPasswordView />;
         if (view === 'FORGOT_PASSWORD') return <ForgotPasswordView />;
         if (!currentUser) return <Login onLogin={handleLogin} onNavigate={navigate} />;
-        
-        switch(currentUser.role) {
-            case 'ADMIN':
-                switch(view) {
-                    case 'ADMIN_DASHBOARD': return <AdminDashboard onNavigate={navigate} onLogout={handleLogout} />;
-                    case 'ADMIN_MANAGE_SERVICES': return <ManageServicesView services={services} fetchData={fetchData} />;
-                    case 'ADMIN_MANAGE_LOCATIONS': return <ManageLocationsView locations={locations} services={services} fetchData={fetchData} addAuditLogEntry={addAuditLogEntry} />;
-                    case 'ADMIN_MANAGE_USERS': return <ManageUsersView users={users} onUsersUpdate={fetchData} services={services} locations={locations} />;
-                    case 'ADMIN_MANAGE_GOALS': return <GoalsAndChartsView records={records} locations={locations} services={services} contractConfigs={contractConfigs} locationServiceMap={locationServiceMap} />;
-                    case 'ADMIN_MANAGE_CYCLES': return <ManageCyclesView locations={locations} configs={contractConfigs} fetchData={fetchData} />;
-                    case 'REPORTS': return <ReportsView records={records} services={services} locations={locations} />;
-                    case 'HISTORY': return <HistoryView records={records} onSelect={handleSelectRecord} isAdmin={true} onEdit={handleEditRecord} onDelete={handleDeleteRecord} selectedIds={selectedRecordIds} onToggleSelect={handleToggleRecordSelection} onDeleteSelected={handleDeleteSelectedRecords} onMeasurementUpdate={handleMeasurementUpdate} onViewImage={handleViewImage} />;
-                    case 'DETAIL': return selectedRecord ? <DetailView record={selectedRecord} onViewImage={handleViewImage} /> : <p>Registro não encontrado.</p>;
-                    case 'ADMIN_EDIT_RECORD': return selectedRecord ? <AdminEditRecordView record={selectedRecord} onSave={handleUpdateRecord} onCancel={handleBack} setIsLoading={setIsLoading} currentUser={currentUser} /> : <p>Nenhum registro selecionado.</p>;
-                    case 'AUDIT_LOG': return <AuditLogView log={auditLog} />;
-                    default: return <AdminDashboard onNavigate={navigate} onLogout={handleLogout}/>;
-                }
-            
-            case 'FISCAL':
-                const fiscalGroups = new Set(currentUser.assignments?.map(a => a.contractGroup) || []);
-                const fiscalRecords = records.filter(r => fiscalGroups.has(r.contractGroup));
-                switch(view) {
-                    case 'FISCAL_DASHBOARD': return <FiscalDashboard onNavigate={navigate} onLogout={handleLogout} />;
-                    case 'REPORTS': return <ReportsView records={fiscalRecords} services={services} locations={locations} />;
-                    case 'HISTORY': return <HistoryView records={fiscalRecords} onSelect={handleSelectRecord} isAdmin={false} selectedIds={new Set()} onToggleSelect={() => {}} onMeasurementUpdate={async () => {}} onViewImage={handleViewImage} />;
-                    case 'DETAIL':
-                        const canView = selectedRecord && fiscalGroups.has(selectedRecord.contractGroup);
-                        return canView ? <DetailView record={selectedRecord} onViewImage={handleViewImage} /> : <p>Registro não encontrado ou acesso não permitido.</p>;
-                    default: return <FiscalDashboard onNavigate={navigate} onLogout={handleLogout} />;
-                }
+        if (!canAccess(view, currentUser)) return null; // a guarda de rota redireciona
 
-            case 'OPERATOR':
-                switch(view) {
-                    case 'OPERATOR_GROUP_SELECT': return <OperatorGroupSelect user={currentUser} onSelectGroup={handleGroupSelect} onLogout={handleLogout} />;
-                    case 'OPERATOR_LOCATION_SELECT': return selectedContractGroup ? <OperatorLocationSelect locations={locations} contractGroup={selectedContractGroup} onSelectLocation={handleLocationSelect} /> : <p>Nenhum contrato selecionado.</p>;
-                    case 'OPERATOR_SERVICE_SELECT': return selectedLocation ? <OperatorServiceSelect location={selectedLocation} services={services} user={currentUser} onSelectService={handleServiceSelect} records={records} contractConfigs={contractConfigs} locations={locations} /> : <p>Nenhum local selecionado.</p>;
-                    case 'OPERATOR_SERVICE_IN_PROGRESS': return <ServiceInProgressView service={currentService} onFinish={() => navigate('PHOTO_STEP')} />;
-                    case 'PHOTO_STEP':
-                        const isAfterPhase = !!(currentService.beforePhotos && currentService.beforePhotos.length > 0);
-                        return <PhotoStep phase={isAfterPhase ? "AFTER" : "BEFORE"} onComplete={isAfterPhase ? handleAfterPhotos : handleBeforePhotos} onCancel={resetService} />;
-                    case 'CONFIRM_STEP': return <ConfirmStep recordData={currentService} onSave={handleSave} onCancel={resetService} />;
-                    case 'HISTORY': 
-                        const operatorRecords = records.filter(r => String(r.operatorId) === String(currentUser.id));
-                        return <HistoryView records={operatorRecords} onSelect={handleSelectRecord} isAdmin={false} onEdit={handleEditRecord} selectedIds={new Set()} onToggleSelect={() => {}} onMeasurementUpdate={async () => {}} onViewImage={handleViewImage} />;
-                    case 'DETAIL': return selectedRecord ? <DetailView record={selectedRecord} onViewImage={handleViewImage} /> : <p>Registro não encontrado.</p>;
-                    case 'ADMIN_EDIT_RECORD': return selectedRecord ? <AdminEditRecordView record={selectedRecord} onSave={handleUpdateRecord} onCancel={handleBack} setIsLoading={setIsLoading} currentUser={currentUser} /> : <p>Nenhum registro selecionado.</p>;
-                    default: return <OperatorGroupSelect user={currentUser} onSelectGroup={handleGroupSelect} onLogout={handleLogout} />;
-                }
-            
-            default:
-                 handleLogout();
-                 return null;
+        const isAdmin = currentUser.role === 'ADMIN';
+        // Fiscal só vê os contratos atribuídos; operador, os próprios registros
+        const fiscalGroups = new Set(currentUser.assignments?.map(a => a.contractGroup) || []);
+        const visibleRecords =
+            currentUser.role === 'FISCAL' ? records.filter(r => fiscalGroups.has(r.contractGroup)) :
+            currentUser.role === 'OPERATOR' ? records.filter(r => String(r.operatorId) === String(currentUser.id)) :
+            records;
+
+        switch(view) {
+            case 'ADMIN_DASHBOARD': return <AdminDashboard onNavigate={navigate} onLogout={handleLogout} />;
+            case 'ADMIN_MANAGE_SERVICES': return <ManageServicesView services={services} fetchData={fetchData} />;
+            case 'ADMIN_MANAGE_LOCATIONS': return <ManageLocationsView locations={locations} services={services} fetchData={fetchData} addAuditLogEntry={addAuditLogEntry} group={route.params.group} onGroupChange={group => navigate('ADMIN_MANAGE_LOCATIONS', true, group ? { group } : {})} />;
+            case 'ADMIN_MANAGE_USERS': return <ManageUsersView users={users} onUsersUpdate={fetchData} services={services} locations={locations} />;
+            case 'ADMIN_MANAGE_GOALS': return <GoalsAndChartsView records={records} locations={locations} services={services} contractConfigs={contractConfigs} locationServiceMap={locationServiceMap} />;
+            case 'ADMIN_MANAGE_CYCLES': return <ManageCyclesView locations={locations} configs={contractConfigs} fetchData={fetchData} />;
+            case 'AUDIT_LOG': return <AuditLogView log={auditLog} records={records} onSelectRecord={handleSelectRecord} />;
+            case 'ADMIN_IMPORT_QUEUE': return <QueueImportView />;
+            case 'FISCAL_DASHBOARD': return <FiscalDashboard onNavigate={navigate} onLogout={handleLogout} />;
+            case 'REPORTS': return <ReportsView records={visibleRecords} services={services} locations={locations} reportType={route.params.type} onReportTypeChange={type => navigate('REPORTS', false, type ? { type } : {})} />;
+            case 'HISTORY':
+                return isAdmin
+                    ? <HistoryView records={records} onSelect={handleSelectRecord} isAdmin={true} onEdit={handleEditRecord} onDelete={handleDeleteRecord} selectedIds={selectedRecordIds} onToggleSelect={handleToggleRecordSelection} onDeleteSelected={handleDeleteSelectedRecords} onMeasurementUpdate={handleMeasurementUpdate} onViewImage={handleViewImage} />
+                    : <HistoryView records={visibleRecords} onSelect={handleSelectRecord} isAdmin={false} onEdit={currentUser.role === 'OPERATOR' ? handleEditRecord : undefined} selectedIds={new Set()} onToggleSelect={() => {}} onMeasurementUpdate={async () => {}} onViewImage={handleViewImage} />;
+            case 'DETAIL':
+                const canView = selectedRecord && (currentUser.role !== 'FISCAL' || fiscalGroups.has(selectedRecord.contractGroup));
+                return canView ? <DetailView record={selectedRecord} onViewImage={handleViewImage} /> : <p>Registro não encontrado ou acesso não permitido.</p>;
+            case 'ADMIN_EDIT_RECORD': return selectedRecord ? <AdminEditRecordView record={selectedRecord} onSave={handleUpdateRecord} onCancel={handleBack} setIsLoading={setIsLoading} currentUser={currentUser} /> : <p>Nenhum registro selecionado.</p>;
+            case 'OPERATOR_GROUP_SELECT': return <OperatorGroupSelect user={currentUser} onSelectGroup={handleGroupSelect} onLogout={handleLogout} />;
+            case 'OPERATOR_LOCATION_SELECT': return selectedContractGroup ? <OperatorLocationSelect locations={locations} contractGroup={selectedContractGroup} onSelectLocation={handleLocationSelect} /> : <p>Nenhum contrato selecionado.</p>;
+            case 'OPERATOR_SERVICE_SELECT': return selectedLocation ? <OperatorServiceSelect location={selectedLocation} services={services} user={currentUser} onSelectService={handleServiceSelect} records={records} contractConfigs={contractConfigs} locations={locations} /> : <p>Nenhum local selecionado.</p>;
+            case 'OPERATOR_SERVICE_IN_PROGRESS': return <ServiceInProgressView service={currentService} onFinish={() => navigate('PHOTO_STEP')} />;
+            case 'PHOTO_STEP':
+                const isAfterPhase = !!(currentService.beforePhotos && currentService.beforePhotos.length > 0);
+                const photoContext = { contractGroup: currentService.contractGroup, locationName: currentService.locationName, serviceType: currentService.serviceType, operatorName: currentUser.username };
+                return <PhotoStep phase={isAfterPhase ? "AFTER" : "BEFORE"} context={photoContext} onComplete={isAfterPhase ? handleAfterPhotos : handleBeforePhotos} onCancel={resetService} />;
+            case 'CONFIRM_STEP': return <ConfirmStep recordData={currentService} onSave={handleSave} onCancel={resetService} />;
+            case 'SYNC_STATUS': return <SyncStatusView />;
+            default: return null;
         }
     };
 
     return (
         <div className={`app-container ${view === 'LOGIN' || view === 'RESET_PASSWORD' || view === 'FORGOT_PASSWORD' ? 'login-view' : ''}`}>
-            {isLoading && <div className="loader-overlay"><div className="spinner"></div><p>{isLoading}</p></div>}
-            <Header view={view} currentUser={currentUser} onBack={handleBack} onLogout={handleLogout} />
+            {isLoading && (
+                <div className="loader-overlay">
+                    <div className="spinner"></div>
+                    <p>{isLoading}</p>
+                    {isConnectionSlow && <p className="loader-hint">A conexão está lenta. Isso pode levar alguns instantes.</p>}
+                </div>
+            )}
+            <Header view={view} currentUser={currentUser} onBack={handleBack} onLogout={handleLogout} pendingSyncCount={pendingSyncCount} onOpenSyncStatus={() => navigate('SYNC_STATUS')} />
+            {isConnectionSlow && <p className="connection-slow-banner" role="status">🐢 Conexão lenta — aguardando resposta do servidor...</p>}
+            {currentUser && referenceUpdatedAt && view !== 'LOGIN' && (
+                <p className={`data-freshness ${isReferenceStale ? 'stale' : ''}`}>
+                    {isReferenceStale ? '📴 Sem conexão — ' : ''}Dados atualizados em {formatDateTime(new Date(referenceUpdatedAt).toISOString())}
+                </p>
+            )}
             <main>{renderView()}</main>
             {/* CORREÇÃO 1: Adiciona o ImageViewer fora da estrutura da main */}
             {isViewingImage && <ImageViewer src={viewingImageSrc} onClose={handleCloseImageViewer} />}
+            {isSessionExpired && currentUser && <SessionExpiredModal user={currentUser} onRelogin={handleRelogin} onLogout={handleLogout} />}
         </div>
     );
 };
@@ -0,0 +1,109 @@
+// src/photoEvidence.ts
+// Evidência de cada foto para a fiscalização: quando, onde e de qual serviço ela foi tirada.
+// Os mesmos dados vão gravados na imagem (marca d'água) e como metadados no upload, para o relatório em PDF.
+import { stampWatermark, blobToDataURL } from "./imagePipeline";
+import type { PhotoMetadata, ServiceRecord } from "./types";
+
+// Dados do serviço em andamento que entram em todas as fotos da etapa
+export interface PhotoContext {
+  contractGroup?: string;
+  locationName?: string;
+  serviceType?: string;
+  operatorName?: string;
+}
+
+// Foto pronta na tela de captura: imagem já carimbada + metadados que seguem no upload
+export interface StampedPhoto {
+  dataUrl: string;
+  metadata: PhotoMetadata;
+}
+
+// Câmera do app: data e posição do momento da captura. Galeria: a data é a do arquivo e a posição
+// atual não diz onde a foto foi tirada.
+export type PhotoCapture =
+  | { source: "camera"; position: GeolocationPosition | null }
+  | { source: "gallery"; lastModified: number };
+
+export function buildPhotoMetadata(context: PhotoContext, capture: PhotoCapture): PhotoMetadata {
+  const capturedAt = new Date().toISOString();
+  if (capture.source === "gallery") {
+    const fileLastModified = new Date(capture.lastModified).toISOString();
+    return { ...context, source: "gallery", takenAt: fileLastModified, capturedAt, fileLastModified };
+  }
+  const { position } = capture;
+  return {
+    ...context,
+    source: "camera",
+    takenAt: capturedAt,
+    capturedAt,
+    latitude: position?.coords.latitude,
+    longitude: position?.coords.longitude,
+    accuracy: position ? Math.round(position.coords.accuracy) : undefined,
+  };
+}
+
+// Linhas da marca d'água e da legenda do PDF
+export function describePhotoMetadata(metadata: PhotoMetadata): string[] {
+  const gps = metadata.latitude !== undefined && metadata.longitude !== undefined
+    ? `GPS: ${metadata.latitude.toFixed(6)}, ${metadata.longitude.toFixed(6)}${metadata.accuracy !== undefined ? ` (±${metadata.accuracy} m)` : ""}`
+    : "GPS: indisponível";
+  const source = metadata.source === "gallery" ? "Foto da galeria · " : "";
+  return [
+    `${source}${new Date(metadata.takenAt).toLocaleString("pt-BR")} · ${gps}`,
+    [metadata.contractGroup, metadata.locationName].filter(Boolean).join(" · "),
+    [metadata.serviceType, metadata.operatorName && `Operador: ${metadata.operatorName}`].filter(Boolean).join(" · "),
+  ].filter(Boolean);
+}
+
+// Sem crypto.subtle (página fora de HTTPS) a foto segue sem hash
+async function sha256Hex(blob: Blob) {
+  if (!crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Carimba a foto (já processada pelo pipeline) e devolve imagem + metadados, com o hash do arquivo final
+export async function stampPhoto(photo: Blob, metadata: PhotoMetadata): Promise<StampedPhoto> {
+  let stamped = photo;
+  try {
+    stamped = await stampWatermark(photo, describePhotoMetadata(metadata));
+  } catch (err) {
+    // Sem a marca d'água os metadados ainda seguem no upload; perder a foto seria pior
+    console.warn("Falha ao aplicar a marca d'água, mantendo a foto original:", err);
+  }
+  let sha256: string | undefined;
+  try {
+    sha256 = await sha256Hex(stamped);
+  } catch (err) {
+    console.warn("Falha ao calcular o hash da foto:", err);
+  }
+  return { dataUrl: await blobToDataURL(stamped), metadata: { ...metadata, sha256 } };
+}
+
+// Foto da galeria com arquivo anterior ao início do serviço: pode ser de outro dia ou de outro local
+export function isFlaggedForReview(metadata: PhotoMetadata | undefined, startTime: string | undefined) {
+  if (!metadata) return false;
+  if (metadata.flaggedForReview) return true;
+  return metadata.source === "gallery" && !!metadata.fileLastModified && !!startTime &&
+    new Date(metadata.fileLastModified).getTime() < new Date(startTime).getTime();
+}
+
+// Metadados prontos para o upload, já com a marcação de revisão calculada contra o início do serviço
+export function metadataForUpload(photos: StampedPhoto[], startTime: string | undefined): PhotoMetadata[] {
+  return photos.map(photo => ({ ...photo.metadata, flaggedForReview: isFlaggedForReview(photo.metadata, startTime) }));
+}
+
+export interface FlaggedPhoto {
+  url: string;
+  phase: "BEFORE" | "AFTER";
+  metadata: PhotoMetadata;
+}
+
+// Fotos do registro que precisam de revisão (detalhe do registro e trilha de auditoria)
+export function getFlaggedPhotos(record: ServiceRecord): FlaggedPhoto[] {
+  const collect = (urls: string[] = [], phase: FlaggedPhoto["phase"]) =>
+    urls
+      .map(url => ({ url, phase, metadata: record.photoMetadata?.[url] }))
+      .filter((photo): photo is FlaggedPhoto => isFlaggedForReview(photo.metadata, record.startTime));
+  return [...collect(record.beforePhotos, "BEFORE"), ...collect(record.afterPhotos, "AFTER")];
+}
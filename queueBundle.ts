@@ -0,0 +1,113 @@
+// Pacote portátil da fila de sincronização (.zip): tira os registros presos num aparelho
+// e permite que o administrador os reenvie a partir de outro navegador.
+import JSZip from "jszip";
+import { getPendingRecords, PendingRecord, PendingPhoto } from "./db";
+import type { PhotoMetadata } from "./types";
+
+const BUNDLE_FORMAT = "crb-pending-queue";
+const BUNDLE_VERSION = 1;
+
+interface BundlePhoto {
+  id: string;
+  uploaded: boolean;
+  path: string;
+  name: string;
+  type: string;
+  lastModified: number;
+  metadata?: PhotoMetadata;
+}
+
+interface BundleRecord {
+  id: string;
+  payload: any;
+  serverId?: string | null;
+  photosBefore: BundlePhoto[];
+  photosAfter: BundlePhoto[];
+}
+
+interface BundleManifest {
+  format: string;
+  version: number;
+  exportedAt: string;
+  records: BundleRecord[];
+}
+
+function addPhotos(zip: JSZip, recordId: string, photos: PendingPhoto[] = []): BundlePhoto[] {
+  return photos.map(photo => {
+    const path = `photos/${recordId}/${photo.id}`;
+    zip.file(path, photo.file);
+    return {
+      id: photo.id,
+      uploaded: photo.uploaded,
+      path,
+      name: photo.file.name || `${photo.id}.jpg`,
+      type: photo.file.type || "image/jpeg",
+      lastModified: photo.file.lastModified || Date.now(),
+      metadata: photo.metadata,
+    };
+  });
+}
+
+// Gera o .zip com manifest.json (payloads e estado de envio) e as fotos de cada registro
+export async function exportPendingQueue(): Promise<Blob> {
+  const pending = await getPendingRecords();
+  const zip = new JSZip();
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    records: pending.map(record => ({
+      id: record.id,
+      payload: record.payload,
+      serverId: record.serverId ?? null,
+      photosBefore: addPhotos(zip, record.id, record.photosBefore),
+      photosAfter: addPhotos(zip, record.id, record.photosAfter),
+    })),
+  };
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+
+  // Fotos já estão comprimidas; só o manifest ganha com DEFLATE
+  return zip.generateAsync({ type: "blob", compression: "STORE" });
+}
+
+async function readPhotos(zip: JSZip, photos: BundlePhoto[] = []): Promise<PendingPhoto[]> {
+  return Promise.all(photos.map(async photo => {
+    const entry = zip.file(photo.path);
+    if (!entry) throw new Error(`Foto ausente no pacote: ${photo.path}`);
+    const blob = await entry.async("blob");
+    const file = new File([blob], photo.name, { type: photo.type, lastModified: photo.lastModified });
+    return { id: photo.id, file, uploaded: photo.uploaded, metadata: photo.metadata };
+  }));
+}
+
+// Lê um pacote exportado e devolve os registros prontos para entrar na fila local
+export async function readQueueBundle(bundle: Blob): Promise<PendingRecord[]> {
+  const zip = await JSZip.loadAsync(bundle);
+  const manifestEntry = zip.file("manifest.json");
+  if (!manifestEntry) throw new Error("Arquivo inválido: manifest.json não encontrado.");
+
+  const manifest: BundleManifest = JSON.parse(await manifestEntry.async("string"));
+  if (manifest.format !== BUNDLE_FORMAT || manifest.version > BUNDLE_VERSION) {
+    throw new Error("Arquivo não é um pacote de pendências compatível com esta versão do app.");
+  }
+
+  return Promise.all(manifest.records.map(async record => {
+    const photosBefore = await readPhotos(zip, record.photosBefore);
+    const photosAfter = await readPhotos(zip, record.photosAfter);
+    return {
+      id: record.id,
+      payload: record.payload,
+      photosBefore,
+      photosAfter,
+      status: "pending",
+      // Mantém o serverId e as fotos já enviadas: o reenvio continua de onde o aparelho parou
+      serverId: record.serverId ?? null,
+      queuedBytes: [...photosBefore, ...photosAfter].reduce((total, photo) => total + photo.file.size, 0),
+      attempts: 0,
+      lastError: null,
+      lastAttemptAt: null,
+      nextAttemptAt: 0,
+    } as PendingRecord;
+  }));
+}
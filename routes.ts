@@ -0,0 +1,153 @@
+// src/routes.ts
+// Cada tela (View) tem uma URL própria: links diretos para registros, recarregar a página sem perder
+// o contexto e o botão voltar do navegador. Também define quais perfis podem abrir cada tela.
+import type { Role, User } from "./types";
+
+export type View =
+  | "LOGIN"
+  | "RESET_PASSWORD"
+  | "FORGOT_PASSWORD"
+  | "ADMIN_DASHBOARD"
+  | "ADMIN_MANAGE_SERVICES"
+  | "ADMIN_MANAGE_LOCATIONS"
+  | "ADMIN_MANAGE_USERS"
+  | "ADMIN_MANAGE_GOALS"
+  | "ADMIN_MANAGE_CYCLES"
+  | "ADMIN_EDIT_RECORD"
+  | "AUDIT_LOG"
+  | "ADMIN_IMPORT_QUEUE"
+  | "FISCAL_DASHBOARD"
+  | "REPORTS"
+  | "HISTORY"
+  | "DETAIL"
+  | "OPERATOR_GROUP_SELECT"
+  | "OPERATOR_LOCATION_SELECT"
+  | "OPERATOR_SERVICE_SELECT"
+  | "PHOTO_STEP"
+  | "OPERATOR_SERVICE_IN_PROGRESS"
+  | "CONFIRM_STEP"
+  | "SYNC_STATUS";
+
+// Parâmetros do caminho (:id, :type) e da query string (?group=) juntos
+export type RouteParams = Record<string, string>;
+
+export interface Route {
+  view: View;
+  params: RouteParams;
+}
+
+interface RouteDefinition {
+  view: View;
+  path: string;
+  // Perfis que podem abrir a tela; sem roles a rota é pública (login e senha)
+  roles?: Role[];
+  // Casa também com prefixo antes do caminho (links já enviados por e-mail com base path)
+  matchSuffix?: boolean;
+}
+
+const ALL_ROLES: Role[] = ["ADMIN", "FISCAL", "OPERATOR"];
+
+// A primeira rota que casar vence: as mais específicas vêm antes
+const ROUTES: RouteDefinition[] = [
+  { view: "LOGIN", path: "/login" },
+  // O link do e-mail traz ?token=...; a tela lê direto da URL
+  { view: "RESET_PASSWORD", path: "/reset-password", matchSuffix: true },
+  { view: "FORGOT_PASSWORD", path: "/forgot-password", matchSuffix: true },
+
+  { view: "ADMIN_DASHBOARD", path: "/admin", roles: ["ADMIN"] },
+  { view: "ADMIN_MANAGE_SERVICES", path: "/admin/services", roles: ["ADMIN"] },
+  { view: "ADMIN_MANAGE_LOCATIONS", path: "/admin/locations", roles: ["ADMIN"] },
+  { view: "ADMIN_MANAGE_USERS", path: "/admin/users", roles: ["ADMIN"] },
+  { view: "ADMIN_MANAGE_GOALS", path: "/admin/goals", roles: ["ADMIN"] },
+  { view: "ADMIN_MANAGE_CYCLES", path: "/admin/cycles", roles: ["ADMIN"] },
+  { view: "AUDIT_LOG", path: "/admin/audit-log", roles: ["ADMIN"] },
+  { view: "ADMIN_IMPORT_QUEUE", path: "/admin/import-queue", roles: ["ADMIN"] },
+
+  { view: "FISCAL_DASHBOARD", path: "/fiscal", roles: ["FISCAL"] },
+  { view: "REPORTS", path: "/reports/:type", roles: ["ADMIN", "FISCAL"] },
+  { view: "REPORTS", path: "/reports", roles: ["ADMIN", "FISCAL"] },
+
+  { view: "HISTORY", path: "/records", roles: ALL_ROLES },
+  { view: "ADMIN_EDIT_RECORD", path: "/records/:id/edit", roles: ["ADMIN", "OPERATOR"] },
+  { view: "DETAIL", path: "/records/:id", roles: ALL_ROLES },
+
+  { view: "OPERATOR_GROUP_SELECT", path: "/operator", roles: ["OPERATOR"] },
+  { view: "OPERATOR_LOCATION_SELECT", path: "/operator/locations", roles: ["OPERATOR"] },
+  { view: "OPERATOR_SERVICE_SELECT", path: "/operator/services", roles: ["OPERATOR"] },
+  { view: "OPERATOR_SERVICE_IN_PROGRESS", path: "/operator/in-progress", roles: ["OPERATOR"] },
+  { view: "PHOTO_STEP", path: "/operator/photos", roles: ["OPERATOR"] },
+  { view: "CONFIRM_STEP", path: "/operator/confirm", roles: ["OPERATOR"] },
+
+  { view: "SYNC_STATUS", path: "/sync", roles: ALL_ROLES },
+];
+
+const splitPath = (path: string) => path.split("/").filter(Boolean);
+
+// URL atual (ou a de um popstate) -> tela + parâmetros. Caminho desconhecido (inclusive "/") retorna null.
+export function matchRoute(pathname: string, search = ""): Route | null {
+  const allSegments = splitPath(pathname);
+  for (const definition of ROUTES) {
+    const pattern = splitPath(definition.path);
+    if (definition.matchSuffix ? allSegments.length < pattern.length : pattern.length !== allSegments.length) continue;
+    const segments = allSegments.slice(allSegments.length - pattern.length);
+
+    const params: RouteParams = {};
+    const matches = pattern.every((part, index) => {
+      if (part.startsWith(":")) {
+        params[part.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return part === segments[index];
+    });
+    if (!matches) continue;
+
+    new URLSearchParams(search).forEach((value, key) => {
+      if (!(key in params)) params[key] = value;
+    });
+    return { view: definition.view, params };
+  }
+  return null;
+}
+
+// Tela + parâmetros -> URL. Parâmetros que não estão no caminho vão para a query string.
+export function routePath(view: View, params: RouteParams = {}) {
+  const candidates = ROUTES.filter(definition => definition.view === view);
+  const definition =
+    candidates.find(candidate =>
+      splitPath(candidate.path).filter(part => part.startsWith(":")).every(part => params[part.slice(1)])
+    ) || candidates[candidates.length - 1];
+
+  const query = new URLSearchParams();
+  const used = new Set<string>();
+  const path = splitPath(definition.path)
+    .map(part => {
+      if (!part.startsWith(":")) return part;
+      used.add(part.slice(1));
+      return encodeURIComponent(params[part.slice(1)]);
+    })
+    .join("/");
+  Object.entries(params).forEach(([key, value]) => {
+    if (!used.has(key) && value) query.set(key, value);
+  });
+
+  const queryString = query.toString();
+  return `/${path}${queryString ? `?${queryString}` : ""}`;
+}
+
+export function isPublicView(view: View) {
+  return ROUTES.some(definition => definition.view === view && !definition.roles);
+}
+
+// Guarda de rota: o perfil do usuário pode abrir esta tela?
+export function canAccess(view: View, user: User | null) {
+  return ROUTES.some(
+    definition => definition.view === view && (!definition.roles || (!!user && definition.roles.includes(user.role)))
+  );
+}
+
+// Tela inicial de cada perfil
+export function homeView(user: User): View {
+  if (user.role === "ADMIN") return "ADMIN_DASHBOARD";
+  if (user.role === "FISCAL") return "FISCAL_DASHBOARD";
+  return "OPERATOR_GROUP_SELECT";
+}
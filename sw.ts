@@ -0,0 +1,92 @@
+/// <reference lib="webworker" />
+// Service worker: guarda o app shell para abrir sem sinal e esvazia a fila de sincronização mesmo com o app fechado.
+// É gerado como /sw.js pelo build (ver vite.config.ts) e registrado em syncManager.ts.
+import { runSyncPass, runOutboxPass, withSyncLock, hasRetryableRecords, SyncEngineHooks, SYNC_STATUS_CHANNEL, BACKGROUND_SYNC_TAG, PERIODIC_SYNC_TAG } from "./syncEngine";
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Background Sync e Periodic Background Sync ainda não estão nas definições do TypeScript
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+declare global {
+  interface ServiceWorkerGlobalScopeEventMap {
+    sync: SyncEvent;
+    periodicsync: SyncEvent;
+  }
+}
+
+// Substituído no build pela lista de arquivos do bundle (plugin crb-precache-manifest)
+// (lido uma única vez aqui; o resto do arquivo usa só a constante)
+declare const __PRECACHE_MANIFEST__: { revision: string; urls: string[] };
+const PRECACHE_MANIFEST = __PRECACHE_MANIFEST__;
+const PRECACHE_PREFIX = "crb-shell-";
+const PRECACHE_NAME = PRECACHE_PREFIX + PRECACHE_MANIFEST.revision;
+
+// As abas abertas escutam este canal e atualizam o contador/painel
+const statusChannel = new BroadcastChannel(SYNC_STATUS_CHANNEL);
+
+const workerSyncHooks: SyncEngineHooks = {
+  onQueueChanged() {
+    statusChannel.postMessage("changed");
+  },
+  onRecordSynced(tempId, newId) {
+    statusChannel.postMessage({ type: "syncSuccess", tempId, newId });
+  },
+};
+
+async function drainQueue() {
+  await withSyncLock(async () => {
+    await runSyncPass(workerSyncHooks);
+    await runOutboxPass(workerSyncHooks);
+  });
+}
+
+async function precacheAppShell() {
+  const cache = await caches.open(PRECACHE_NAME);
+  await cache.addAll(PRECACHE_MANIFEST.urls);
+}
+
+// Remove o shell de versões anteriores (os arquivos antigos já não existem no servidor)
+async function deleteOldShells() {
+  const names = await caches.keys();
+  await Promise.all(names.filter(name => name.startsWith(PRECACHE_PREFIX) && name !== PRECACHE_NAME).map(name => caches.delete(name)));
+}
+
+self.addEventListener("install", event => {
+  event.waitUntil(precacheAppShell().then(() => self.skipWaiting()));
+});
+self.addEventListener("activate", event => {
+  event.waitUntil(deleteOldShells().then(() => self.clients.claim()));
+});
+
+// App shell sai do cache (abre com zero sinal); API e fotos enviadas sempre vão para a rede
+self.addEventListener("fetch", event => {
+  const request = event.request;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/") || url.pathname.startsWith("/uploads/")) return;
+
+  if (request.mode === "navigate") {
+    // SPA: qualquer rota abre o index.html guardado
+    event.respondWith(caches.match("/index.html").then(cached => cached || fetch(request)));
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached || fetch(request)));
+});
+
+self.addEventListener("sync", event => {
+  if (event.tag !== BACKGROUND_SYNC_TAG) return;
+  event.waitUntil((async () => {
+    await drainQueue();
+    // Rejeitar faz o navegador reagendar o Background Sync (com o próprio backoff dele)
+    if (await hasRetryableRecords()) {
+      throw new Error("Ainda há registros aguardando envio");
+    }
+  })());
+});
+
+self.addEventListener("periodicsync", event => {
+  if (event.tag !== PERIODIC_SYNC_TAG) return;
+  event.waitUntil(drainQueue());
+});
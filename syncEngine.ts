@@ -0,0 +1,251 @@
+// Núcleo da sincronização da fila. Não depende de window/document para rodar
+// tanto na página (syncManager.ts) quanto no service worker (sw.ts).
+import {
+  getPendingRecords, getPendingRecord, deletePendingRecord, updatePendingRecord, PendingRecord, PendingPhoto,
+  saveIdMapping, getServerId, OutboxMutation, getOutboxMutations, updateOutboxMutation, deleteOutboxMutation,
+} from "./db";
+import { api, ApiError } from "./api";
+
+// Backoff exponencial: 30s, 1min, 2min... até no máximo 30min entre tentativas
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 30 * 60_000;
+
+function getRetryDelay(attempts: number) {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+  // Jitter de ±20% para os aparelhos não voltarem todos ao mesmo tempo quando o sinal retorna
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// 4xx (exceto timeout/rate limit) não melhora repetindo: o registro precisa de atenção
+function isPermanentFailure(err: unknown) {
+  return err instanceof ApiError && err.status >= 400 && err.status < 500 && err.status !== 408 && err.status !== 429;
+}
+
+// Sem sessão válida: a fila pausa (sem contar tentativa) até o usuário entrar de novo
+export function isSessionExpired(err: unknown) {
+  return err instanceof ApiError && err.status === 401;
+}
+
+// O registro mudou no servidor desde a versão enviada no If-Match
+export function isConflictError(err: unknown): err is ApiError {
+  return err instanceof ApiError && (err.status === 409 || err.status === 412);
+}
+
+// Formato do If-Match a partir da versão do registro (ETag forte)
+export function versionTag(version: unknown) {
+  return version === undefined || version === null ? null : `"${version}"`;
+}
+
+// Tentativas de remover foto quando o registro muda entre a leitura e a gravação
+const REMOVE_PHOTO_MAX_ATTEMPTS = 3;
+
+// Nome do Web Lock compartilhado por todas as abas do mesmo perfil do navegador
+const SYNC_LOCK_NAME = "crb-sync-queue";
+
+// Canal usado para avisar as abas abertas que a fila mudou (a página e o service worker publicam nele)
+export const SYNC_STATUS_CHANNEL = "crb-sync-status";
+
+// Tags registradas no service worker (Background Sync e Periodic Background Sync)
+export const BACKGROUND_SYNC_TAG = "crb-sync";
+export const PERIODIC_SYNC_TAG = "crb-sync-periodic";
+
+// Como cada ambiente avisa a interface sobre o andamento
+export interface SyncEngineHooks {
+  onQueueChanged(): void;
+  onRecordSynced(tempId: string, newId: string): void;
+}
+
+// Garante uma única passada por vez entre abas e o service worker (Web Locks)
+export async function withSyncLock(task: () => Promise<void>) {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    await navigator.locks.request(SYNC_LOCK_NAME, task);
+  } else {
+    await task();
+  }
+}
+
+type PhotoPhase = "BEFORE" | "AFTER";
+
+function hasPendingPhotos(record: PendingRecord) {
+  return [...(record.photosBefore || []), ...(record.photosAfter || [])].some(photo => !photo.uploaded);
+}
+
+// Sobe as fotos de uma fase uma a uma, marcando cada uma como enviada assim que o servidor confirma.
+// Se a conexão cair no meio, a próxima passada retoma só das que faltam.
+async function uploadPendingPhotos(item: PendingRecord, serverId: string, phase: PhotoPhase, hooks: SyncEngineHooks) {
+  const field = phase === "BEFORE" ? "photosBefore" : "photosAfter";
+  const remaining = (item[field] || []).filter(photo => !photo.uploaded);
+
+  for (const photo of remaining) {
+    // O id da foto evita duplicata no servidor se a resposta do upload se perder
+    await api.records.uploadPhotos(serverId, phase, [photo.file], { idempotencyKey: photo.id, background: true, metadata: [photo.metadata] });
+    await updatePendingRecord(item.id, current => ({
+      [field]: (current[field] || []).map((p: PendingPhoto) => (p.id === photo.id ? { ...p, uploaded: true } : p)),
+    }));
+    hooks.onQueueChanged();
+  }
+}
+
+// Processa fila (uma passada; quem chama segura o lock)
+export async function runSyncPass(hooks: SyncEngineHooks) {
+  const pending = await getPendingRecords();
+  const now = Date.now();
+
+  for (const item of pending) {
+    // Registros rejeitados ou ainda em espera do backoff ficam para depois
+    if (item.status === "failed") continue;
+    if (item.nextAttemptAt && item.nextAttemptAt > now) continue;
+
+    try {
+      // 1. Cria registro (só na primeira vez; depois retoma direto nas fotos)
+      let serverId = item.serverId;
+      if (!serverId) {
+        // O tempId vai como chave de idempotência: se a resposta se perdeu, o servidor devolve o registro já criado
+        const newRecord = await api.records.create(item.payload, { idempotencyKey: item.payload.tempId, background: true });
+        serverId = newRecord.id;
+        await updatePendingRecord(item.id, { serverId });
+        hooks.onQueueChanged();
+
+        // Salva o mapeamento do ID temporário para o ID real (sobrevive à sincronização)
+        await saveIdMapping(item.payload.tempId, serverId);
+      }
+
+      // 2. Sobe fotos BEFORE ainda não enviadas (usando o serverId correto)
+      await uploadPendingPhotos(item, serverId, "BEFORE", hooks);
+
+      // 3. Sobe fotos AFTER (se já existirem na fila)
+      await uploadPendingPhotos(item, serverId, "AFTER", hooks);
+
+      // 4. Remove da fila, a menos que tenham chegado fotos novas durante o envio
+      const fresh = await getPendingRecord(item.id);
+      if (fresh && hasPendingPhotos(fresh)) {
+        continue;
+      }
+      await deletePendingRecord(item.id);
+      hooks.onQueueChanged();
+
+      hooks.onRecordSynced(item.payload.tempId, serverId);
+
+    } catch (err) {
+      if (isSessionExpired(err)) throw err;
+      const attempts = (item.attempts || 0) + 1;
+      const failed = isPermanentFailure(err);
+      console.warn(failed ? "Registro rejeitado pelo servidor:" : "Falha ao sincronizar:", item.id, err);
+
+      await updatePendingRecord(item.id, {
+        attempts,
+        status: failed ? "failed" : "pending",
+        lastError: err instanceof Error ? err.message : String(err),
+        lastAttemptAt: new Date().toISOString(),
+        nextAttemptAt: failed ? 0 : Date.now() + getRetryDelay(attempts),
+      });
+      hooks.onQueueChanged();
+    }
+  }
+}
+
+// Envia uma alteração da outbox. Também usado pela página para o envio direto quando há conexão
+// (background = false: aí o usuário está esperando e o aviso de conexão lenta faz sentido).
+export async function sendMutation(
+  mutation: Pick<OutboxMutation, "id" | "type" | "recordId" | "body" | "phase" | "files" | "ifMatch">,
+  background = false
+) {
+  const { recordId } = mutation;
+  const idempotencyKey = mutation.id;
+
+  switch (mutation.type) {
+    case "updateRecord":
+      return api.records.update(recordId, mutation.body, { idempotencyKey, ifMatch: mutation.ifMatch, background });
+
+    case "adjustMeasurement":
+      return api.records.adjustMeasurement(recordId, mutation.body.overrideMeasurement, { idempotencyKey, background });
+
+    case "deleteRecord":
+      try {
+        return await api.records.remove(recordId, { idempotencyKey, background });
+      } catch (err) {
+        // Já excluído (por outra pessoa ou por um envio anterior cuja resposta se perdeu)
+        if (err instanceof ApiError && err.status === 404) return null;
+        throw err;
+      }
+
+    case "addPhotos":
+      return api.records.uploadPhotos(recordId, mutation.phase || "BEFORE", mutation.files || [], { idempotencyKey, background });
+
+    case "removePhoto": {
+      // Relê o registro na hora do envio: as listas podem ter mudado desde que a remoção foi feita offline.
+      // O If-Match protege a janela entre a leitura e a gravação; se perder a corrida, lê de novo.
+      // Cada versão lida gera um corpo diferente, então a chave de idempotência leva a versão junto
+      // (reenviar a mesma tentativa repete a chave; uma tentativa nova não reaproveita a resposta da anterior).
+      const { photoUrl } = mutation.body;
+      for (let attempt = 1; ; attempt++) {
+        const current = await api.records.get(recordId, { background });
+        try {
+          return await api.records.update(
+            recordId,
+            {
+              beforePhotos: (current.beforePhotos || []).filter(p => p !== photoUrl),
+              afterPhotos: (current.afterPhotos || []).filter(p => p !== photoUrl),
+            },
+            { idempotencyKey: `${idempotencyKey}:${current.version ?? 0}`, ifMatch: versionTag(current.version), background }
+          );
+        } catch (err) {
+          if (!isConflictError(err) || attempt >= REMOVE_PHOTO_MAX_ATTEMPTS) throw err;
+        }
+      }
+    }
+  }
+}
+
+// Processa a outbox em ordem. Se uma alteração de um registro falha, as seguintes do mesmo registro
+// esperam (não dá para aplicar a exclusão de uma foto antes do upload que a criou, por exemplo).
+export async function runOutboxPass(hooks: SyncEngineHooks) {
+  const mutations = await getOutboxMutations();
+  const pendingRecords = await getPendingRecords();
+  const blocked = new Set<string>();
+  const now = Date.now();
+
+  for (const mutation of mutations) {
+    if (blocked.has(mutation.recordId)) continue;
+    if (mutation.status === "failed" || (mutation.nextAttemptAt && mutation.nextAttemptAt > now)) {
+      blocked.add(mutation.recordId);
+      continue;
+    }
+
+    // Registro criado offline e ainda sem ID do servidor: espera a fila de registros
+    const recordId = (await getServerId(mutation.recordId)) || mutation.recordId;
+    if (pendingRecords.some(r => r.payload.tempId === recordId && !r.serverId)) {
+      blocked.add(mutation.recordId);
+      continue;
+    }
+
+    try {
+      await sendMutation({ ...mutation, recordId }, true);
+      await deleteOutboxMutation(mutation.seq!);
+      hooks.onQueueChanged();
+    } catch (err) {
+      if (isSessionExpired(err)) throw err;
+      blocked.add(mutation.recordId);
+      const attempts = (mutation.attempts || 0) + 1;
+      const failed = isPermanentFailure(err);
+      console.warn(failed ? "Alteração rejeitada pelo servidor:" : "Falha ao enviar alteração:", mutation.type, mutation.recordId, err);
+
+      await updateOutboxMutation(mutation.seq!, {
+        conflict: isConflictError(err),
+        attempts,
+        status: failed ? "failed" : "pending",
+        lastError: err instanceof Error ? err.message : String(err),
+        lastAttemptAt: new Date().toISOString(),
+        nextAttemptAt: failed ? 0 : Date.now() + getRetryDelay(attempts),
+      });
+      hooks.onQueueChanged();
+    }
+  }
+}
+
+// Ainda há registros ou alterações que uma nova tentativa pode enviar (os rejeitados pelo servidor não contam)
+export async function hasRetryableRecords() {
+  const pending = await getPendingRecords();
+  const mutations = await getOutboxMutations();
+  return pending.some(item => item.status !== "failed") || mutations.some(mutation => mutation.status !== "failed");
+}
@@ -1,132 +1,402 @@
-import { addPendingRecord, getPendingRecords, deletePendingRecord } from "./db";
-import { apiFetch } from "./api";
+import {
+  addPendingRecord, getPendingRecords, deletePendingRecord, updatePendingRecord, PendingRecord, toPendingPhotos,
+  getServerId, pruneIdMappings, getQueuedBytes, migrateLegacyIdMappings,
+  OutboxMutation, addOutboxMutation, countOutboxMutations, updateOutboxMutation, deleteOutboxMutation,
+} from "./db";
+import { api, ApiError } from "./api";
+import type { NewRecordPayload, PhotoMetadata } from "./types";
+import {
+  runSyncPass, runOutboxPass, sendMutation, withSyncLock, hasRetryableRecords, SyncEngineHooks, isConflictError, versionTag, isSessionExpired,
+  SYNC_STATUS_CHANNEL, BACKGROUND_SYNC_TAG, PERIODIC_SYNC_TAG,
+} from "./syncEngine";
 
-// Cria novo registro com fotos "Antes"
-export async function queueRecord(recordPayload: any, photosBefore: File[]) {
-  const record = {
+// Mapeamentos tempId -> ID real ficam guardados por 30 dias depois da sincronização
+const ID_MAPPING_RETENTION_MS = 30 * 24 * 60 * 60_000;
+
+// Evento disparado sempre que a fila muda (usado pelo painel de sincronização e pelo contador do Header)
+export const SYNC_STATUS_EVENT = "syncStatusChange";
+
+// Repassa as mudanças para as outras abas abertas, que também mostram o contador.
+// O service worker publica no mesmo canal quando sincroniza com o app fechado ou em segundo plano.
+const statusChannel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(SYNC_STATUS_CHANNEL) : null;
+statusChannel?.addEventListener("message", event => {
+  if (event.data?.type === "syncSuccess") {
+    window.dispatchEvent(new CustomEvent("syncSuccess", { detail: { tempId: event.data.tempId, newId: event.data.newId } }));
+  }
+  window.dispatchEvent(new CustomEvent(SYNC_STATUS_EVENT));
+});
+
+function notifyQueueChanged() {
+  window.dispatchEvent(new CustomEvent(SYNC_STATUS_EVENT));
+  statusChannel?.postMessage("changed");
+}
+
+const pageSyncHooks: SyncEngineHooks = {
+  onQueueChanged: notifyQueueChanged,
+  onRecordSynced(tempId, newId) {
+    window.dispatchEvent(new CustomEvent("syncSuccess", { detail: { tempId, newId } }));
+  },
+};
+
+// Abaixo de 200 MB livres o operador é avisado; abaixo de 50 MB novas fotos são recusadas
+const STORAGE_LOW_BYTES = 200 * 1024 * 1024;
+const STORAGE_CRITICAL_BYTES = 50 * 1024 * 1024;
+
+// Sem espaço para guardar as fotos na fila: melhor recusar a captura do que gravar pela metade
+export class StorageFullError extends Error {
+  constructor(message = "Sem espaço no aparelho para guardar as fotos") {
+    super(message);
+    this.name = "StorageFullError";
+  }
+}
+
+export type StorageLevel = "ok" | "low" | "critical";
+
+export interface StorageStatus {
+  usage: number;
+  quota: number;
+  free: number;
+  persisted: boolean;
+  level: StorageLevel;
+}
+
+// Espaço disponível para a origem. extraBytes = fotos ainda em memória que vão entrar na fila.
+export async function getStorageStatus(extraBytes = 0): Promise<StorageStatus | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  const free = Math.max(quota - usage - extraBytes, 0);
+  const level: StorageLevel = free < STORAGE_CRITICAL_BYTES ? "critical" : free < STORAGE_LOW_BYTES ? "low" : "ok";
+  return { usage, quota, free, persisted, level };
+}
+
+async function ensureStorageFor(files: File[]) {
+  const status = await getStorageStatus(files.reduce((total, file) => total + file.size, 0));
+  if (status?.level === "critical") throw new StorageFullError();
+}
+
+// O navegador pode despejar a origem sob pressão de espaço; com persist() as fotos da fila ficam protegidas
+async function requestPersistentStorage() {
+  if (!navigator.storage?.persist) return;
+  if (await navigator.storage.persisted()) return;
+  const granted = await navigator.storage.persist();
+  if (!granted) console.warn("Armazenamento persistente não concedido; a fila pode ser apagada pelo navegador.");
+}
+
+// Cota estourada no meio da gravação vira StorageFullError (a transação é abortada, a fila fica como estava)
+async function writeQueue(task: () => Promise<void>) {
+  try {
+    await task();
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "QuotaExceededError") throw new StorageFullError();
+    throw err;
+  }
+}
+
+function findPendingRecord(pending: PendingRecord[], recordId: string) {
+  return pending.find(r => r.payload.tempId === recordId || r.id === recordId || r.serverId === recordId);
+}
+
+// Traduz um ID temporário para o ID do servidor; IDs que já são do servidor voltam inalterados
+export async function resolveRecordId(recordId: string) {
+  return (await getServerId(recordId)) || recordId;
+}
+
+// Cria novo registro com fotos "Antes" (photoMetadata[i] descreve photosBefore[i])
+export async function queueRecord(recordPayload: any, photosBefore: File[], photoMetadata?: PhotoMetadata[]) {
+  await ensureStorageFor(photosBefore);
+  const record: PendingRecord = {
     id: crypto.randomUUID(),
     payload: recordPayload,
-    photosBefore,
+    photosBefore: toPendingPhotos(photosBefore, 0, photoMetadata),
     photosAfter: [],
     status: "pending",
+    serverId: null,
+    queuedBytes: photosBefore.reduce((total, file) => total + file.size, 0),
+    attempts: 0,
+    lastError: null,
+    lastAttemptAt: null,
+    nextAttemptAt: 0,
   };
-  await addPendingRecord(record);
+  await writeQueue(() => addPendingRecord(record));
+  notifyQueueChanged();
   trySync();
 }
 
-// Adiciona fotos "Depois" a um registro já existente
-export async function addAfterPhotosToPending(recordId: string, photosAfter: File[]) {
+// Adiciona fotos "Depois" a um registro já existente. recordChanges (ex.: conferência do local) vai junto
+// na criação se o registro ainda está na fila; se já foi criado, segue como edição pela outbox.
+export async function addAfterPhotosToPending(
+  recordId: string,
+  photosAfter: File[],
+  recordChanges?: Partial<NewRecordPayload>,
+  photoMetadata?: PhotoMetadata[]
+) {
   const pending = await getPendingRecords();
-  const record = pending.find(r => r.payload.tempId === recordId || r.id === recordId);
+  const record = findPendingRecord(pending, recordId);
+  const mergeIntoPayload = !!record && !record.serverId && !!recordChanges;
 
   if (record) {
-    record.photosAfter.push(...photosAfter);
-    await addPendingRecord(record); // sobrescreve no IndexedDB
+    await ensureStorageFor(photosAfter);
+    await writeQueue(() => updatePendingRecord(record.id, current => ({
+      ...(mergeIntoPayload ? { payload: { ...current.payload, ...recordChanges } } : {}),
+      photosAfter: [...(current.photosAfter || []), ...toPendingPhotos(photosAfter, 0, photoMetadata)],
+      queuedBytes: getQueuedBytes(current) + photosAfter.reduce((total, file) => total + file.size, 0),
+    })));
+    notifyQueueChanged();
     trySync();
   } else {
     // Se já subiu, manda direto
     try {
-      const fd = new FormData();
-      fd.append("phase", "AFTER");
-      photosAfter.forEach(f => fd.append("files", f));
+      // Busca o ID real que foi salvo pelo trySync.
+      const realId = await resolveRecordId(recordId);
 
-      // Busca no localStorage pelo ID real que foi salvo pelo trySync.
-      const realId = localStorage.getItem(`sync_map_${recordId}`) || recordId;
-      
-      await apiFetch(`/api/records/${realId}/photos`, { method: "POST", body: fd });
+      await api.records.uploadPhotos(realId, "AFTER", photosAfter, { metadata: photoMetadata });
 
     } catch (err) {
       console.error("Falha ao enviar fotos AFTER direto:", err);
       throw err; 
     }
   }
-}
 
-// Processa fila
-export async function trySync() {
-  const pending = await getPendingRecords();
+  if (recordChanges && !mergeIntoPayload) await submitRecordChanges(record?.serverId || recordId, recordChanges, !!record);
+}
 
-  for (const item of pending) {
+// Registro já criado no servidor: os dados extras seguem como edição com o If-Match da versão atual.
+// Com fotos deste aparelho ainda na fila (behindQueuedPhotos) ou sem conexão, vai sem If-Match: a versão
+// lida agora ficaria velha assim que elas subissem. Erro do servidor vai para quem chamou.
+async function submitRecordChanges(recordId: string, recordChanges: Partial<NewRecordPayload>, behindQueuedPhotos: boolean) {
+  const realId = await resolveRecordId(recordId);
+  let version: unknown;
+  if (navigator.onLine && !behindQueuedPhotos && (await countOutboxMutations(realId)) === 0) {
     try {
-      // 1. Cria registro
-      const newRecord = await apiFetch("/api/records", {
-        method: "POST",
-        body: JSON.stringify(item.payload),
-      });
-
-      // Salva o mapeamento do ID temporário para o ID real no localStorage.
-      localStorage.setItem(`sync_map_${item.payload.tempId}`, newRecord.id);
-
-      // 2. Sobe fotos BEFORE (usando o newRecord.id correto)
-      if (item.photosBefore?.length) {
-        const fd = new FormData();
-        fd.append("phase", "BEFORE");
-        item.photosBefore.forEach(f => fd.append("files", f));
-        await apiFetch(`/api/records/${newRecord.id}/photos`, { method: "POST", body: fd });
-      }
+      version = (await api.records.get(realId)).version;
+    } catch (err) {
+      if (err instanceof ApiError) throw err;
+    }
+  }
+  await submitMutation({ type: "updateRecord", recordId: realId, body: recordChanges, ifMatch: versionTag(version) });
+}
+
+let syncInFlight: Promise<void> | null = null;
+let syncRequested = false;
 
-      // 3. Sobe fotos AFTER (se já existirem na fila)
-      if (item.photosAfter?.length) {
-        const fd = new FormData();
-        fd.append("phase", "AFTER");
-        item.photosAfter.forEach(f => fd.append("files", f));
-        await apiFetch(`/api/records/${newRecord.id}/photos`, { method: "POST", body: fd });
+// Dispara a sincronização. Chamadas durante uma passada em andamento são agrupadas na próxima.
+export function trySync(): Promise<void> {
+  syncRequested = true;
+  if (!syncInFlight) {
+    syncInFlight = (async () => {
+      try {
+        while (syncRequested) {
+          syncRequested = false;
+          await withSyncLock(async () => {
+            await runSyncPass(pageSyncHooks);
+            await runOutboxPass(pageSyncHooks);
+          });
+        }
+        // Sobrou algo na fila: deixa o service worker tentar de novo mesmo se a aba for fechada
+        if (await hasRetryableRecords()) {
+          await requestBackgroundSync();
+        }
+      } catch (err) {
+        if (isSessionExpired(err)) {
+          // Nada é marcado como falha: a fila volta a andar quando o usuário entrar de novo
+          console.warn("Sessão expirada: sincronização pausada até o novo login.");
+        } else {
+          console.warn("Falha na passada de sincronização:", err);
+        }
+      } finally {
+        syncInFlight = null;
       }
+    })();
+  }
+  return syncInFlight;
+}
 
-      // 4. Remove da fila
-      await deletePendingRecord(item.id);
-      console.log("Registro sincronizado:", item.payload.tempId, "-> Novo ID:", newRecord.id);
+// Importação de um pacote exportado de outro aparelho: entra na fila local e segue o mesmo caminho do trySync.
+// Registros que já estão na fila (mesmo tempId) são ignorados; as chaves de idempotência evitam duplicatas no servidor.
+export async function importPendingRecords(records: PendingRecord[]) {
+  const pending = await getPendingRecords();
+  const known = new Set(pending.map(r => r.payload.tempId));
+  const fresh = records.filter(r => !known.has(r.payload.tempId));
+
+  await ensureStorageFor(fresh.flatMap(r => [...r.photosBefore, ...r.photosAfter].map(photo => photo.file)));
+  for (const record of fresh) {
+    await writeQueue(() => addPendingRecord(record));
+  }
+  notifyQueueChanged();
+  trySync();
+  return { imported: fresh.length, skipped: records.length - fresh.length };
+}
 
-      window.dispatchEvent(new CustomEvent('syncSuccess', { detail: { tempId: item.payload.tempId, newId: newRecord.id } }));
-      
-      // A LINHA ABAIXO PRECISA SER ATIVADA:
-      localStorage.removeItem(`sync_map_${item.payload.tempId}`);
+export { isConflictError, versionTag };
 
+export type NewMutation = Pick<OutboxMutation, "type" | "recordId" | "body" | "phase" | "files" | "ifMatch">;
+
+// Alteração de admin/fiscal: com conexão vai direto ao servidor; sem conexão (ou com alterações
+// anteriores do mesmo registro ainda na fila) entra na outbox para manter a ordem.
+// Erros do servidor (4xx/5xx) no envio direto continuam sendo lançados para a tela tratar.
+export async function submitMutation(mutation: NewMutation): Promise<{ queued: boolean; result?: any }> {
+  const id = crypto.randomUUID();
+  const recordId = await resolveRecordId(mutation.recordId);
+
+  if (navigator.onLine && (await countOutboxMutations(recordId)) === 0) {
+    try {
+      return { queued: false, result: await sendMutation({ ...mutation, id, recordId }) };
     } catch (err) {
-      console.warn("Falha ao sincronizar:", item.id, err);
+      if (err instanceof ApiError) throw err;
+      console.warn("Sem conexão, alteração guardada na outbox:", mutation.type, recordId, err);
     }
   }
+
+  if (mutation.files?.length) await ensureStorageFor(mutation.files);
+  // O If-Match só vale para a primeira alteração do registro na fila: as que vêm atrás foram feitas
+  // sobre a versão que as anteriores (deste mesmo aparelho) ainda vão mudar no servidor
+  const queuedBehind = (await countOutboxMutations(recordId)) > 0;
+  await writeQueue(() => addOutboxMutation({
+    ...mutation,
+    ifMatch: queuedBehind ? null : mutation.ifMatch,
+    id,
+    recordId,
+    createdAt: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+    lastAttemptAt: null,
+    nextAttemptAt: 0,
+  }));
+  notifyQueueChanged();
+  trySync();
+  return { queued: true };
+}
+
+// Total exibido no Header: registros novos + alterações aguardando envio
+export async function countPendingWork() {
+  const pending = await getPendingRecords();
+  return pending.length + (await countOutboxMutations());
+}
+
+// Conflito resolvido na tela: a alteração continua no mesmo lugar da fila, agora baseada na versão atual
+export async function resolveMutationConflict(seq: number, body: any, ifMatch: string | null) {
+  await updateOutboxMutation(seq, { body, ifMatch, conflict: false, status: "pending", nextAttemptAt: 0, lastError: null });
+  notifyQueueChanged();
+  return trySync();
+}
+
+export async function retryMutation(seq: number) {
+  await updateOutboxMutation(seq, { status: "pending", nextAttemptAt: 0 });
+  notifyQueueChanged();
+  return trySync();
+}
+
+export async function discardMutation(seq: number) {
+  await deleteOutboxMutation(seq);
+  notifyQueueChanged();
 }
 
-// Adicione isto no final do arquivo syncManager.ts
+// "Tentar agora" do painel: zera o backoff (e o estado de falha) e dispara uma passada
+export async function retryPendingRecord(id: string) {
+  await updatePendingRecord(id, { status: "pending", nextAttemptAt: 0 });
+  notifyQueueChanged();
+  return trySync();
+}
 
-export async function addBeforePhotosToPending(recordId: string, photosBefore: File[]) {
+// "Descartar" do painel: remove o registro e suas fotos da fila sem enviar
+export async function discardPendingRecord(id: string) {
+  await deletePendingRecord(id);
+  notifyQueueChanged();
+}
+
+// recordChanges (O.S. informada ao reabrir, conferência do local) segue a mesma regra do addAfterPhotosToPending
+export async function addBeforePhotosToPending(
+  recordId: string,
+  photosBefore: File[],
+  recordChanges?: Partial<NewRecordPayload>,
+  photoMetadata?: PhotoMetadata[]
+) {
   // 1. Busca os registros pendentes
   const pending = await getPendingRecords();
   
   // 2. Encontra o registro pelo ID temporário ou ID real
-  const record = pending.find(r => r.payload.tempId === recordId || r.id === recordId);
+  const record = findPendingRecord(pending, recordId);
+  // Dados do registro vão junto na criação se ele ainda não subiu
+  const mergeIntoPayload = !!record && !record.serverId && !!recordChanges;
+  // Sem espaço para as fotos o operador precisa saber antes de qualquer envio (fila ou direto)
+  await ensureStorageFor(photosBefore);
 
   if (record) {
-    // 3. Adiciona as novas fotos ao array existente
-    if (!record.photosBefore) record.photosBefore = [];
-    record.photosBefore.push(...photosBefore);
-    
-    // 4. Salva de volta no IndexedDB
-    await addPendingRecord(record); 
-    console.log("Fotos 'Antes' anexadas ao registro pendente:", recordId);
-    
+    // 3 e 4. Adiciona as novas fotos ao array existente e salva de volta no IndexedDB
+    await writeQueue(() => updatePendingRecord(record.id, current => ({
+      ...(mergeIntoPayload ? { payload: { ...current.payload, ...recordChanges } } : {}),
+      photosBefore: [...(current.photosBefore || []), ...toPendingPhotos(photosBefore, 0, photoMetadata)],
+      queuedBytes: getQueuedBytes(current) + photosBefore.reduce((total, file) => total + file.size, 0),
+    })));
+    notifyQueueChanged();
+
     // 5. Tenta sincronizar se tiver internet
     trySync();
   } else {
     // Se não achou no pendente, talvez já tenha subido pro servidor?
     // Nesse caso, tentamos envio direto via API (fallback)
     try {
-        const fd = new FormData();
-        fd.append("phase", "BEFORE");
-        photosBefore.forEach(f => fd.append("files", f));
-
         // Tenta recuperar o ID real mapeado ou usa o próprio ID
-        const realId = localStorage.getItem(`sync_map_${recordId}`) || recordId;
+        const realId = await resolveRecordId(recordId);
         
-        await apiFetch(`/api/records/${realId}/photos`, { method: "POST", body: fd });
+        await api.records.uploadPhotos(realId, "BEFORE", photosBefore, { metadata: photoMetadata });
     } catch (err) {
         console.error("Erro ao tentar anexar fotos Antes (registro não encontrado em pendentes):", err);
+        throw err;
     }
   }
+
+  if (recordChanges && !mergeIntoPayload) await submitRecordChanges(record?.serverId || recordId, recordChanges, !!record);
 }
 
 
+// Coleta de lixo dos mapeamentos antigos (os de registros ainda na fila são preservados)
+async function pruneOldIdMappings() {
+  const pending = await getPendingRecords();
+  await pruneIdMappings(ID_MAPPING_RETENTION_MS, new Set(pending.map(r => r.payload.tempId)));
+}
+
+// sync e periodicSync só existem no Chrome/Android e faltam no lib.dom do TypeScript
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: { register(tag: string, options?: { minInterval?: number }): Promise<void> };
+};
+
+// Pede ao service worker um Background Sync (o navegador dispara quando houver conexão)
+async function requestBackgroundSync() {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+  try {
+    const registration: SyncCapableRegistration = await navigator.serviceWorker.ready;
+    await registration.sync?.register(BACKGROUND_SYNC_TAG);
+  } catch (err) {
+    console.warn("Background Sync indisponível:", err);
+  }
+}
+
+// Registra o service worker (só no build de produção) e, onde permitido, a sincronização periódica
+async function registerSyncServiceWorker() {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+  try {
+    const registration: SyncCapableRegistration = await navigator.serviceWorker.register("/sw.js", { type: "module" });
+    if (registration.periodicSync) {
+      const permission = await navigator.permissions.query({ name: "periodic-background-sync" as PermissionName });
+      if (permission.state === "granted") {
+        await registration.periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60_000 });
+      }
+    }
+  } catch (err) {
+    console.warn("Falha ao registrar o service worker:", err);
+  }
+}
+
 // Auto-sync
 window.addEventListener("online", trySync);
 setInterval(trySync, 30000);
+registerSyncServiceWorker();
+requestPersistentStorage().catch(err => console.warn("Falha ao pedir armazenamento persistente:", err));
+migrateLegacyIdMappings()
+  .catch(err => console.warn("Falha ao migrar mapeamentos de IDs do localStorage:", err))
+  .then(pruneOldIdMappings)
+  .catch(err => console.warn("Falha ao limpar mapeamentos de IDs:", err));
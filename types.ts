@@ -0,0 +1,108 @@
+// Tipos do domínio compartilhados entre as telas e o cliente da API (api.ts).
+// IDs numéricos do backend chegam aqui já convertidos para string (ver normalize* em api.ts).
+
+export type Role = "ADMIN" | "OPERATOR" | "FISCAL";
+
+export interface Unit { id: string; name: string; symbol: string; }
+export interface ServiceDefinition { id: string; name: string; unit: Unit; unitId: string; }
+export interface LocationServiceDetail { serviceId: string; name: string; measurement: number; unit: Unit; }
+
+export interface UserAssignment { contractGroup: string; serviceNames: string[]; }
+export interface User { id: string; username: string; email?: string; password?: string; role: Role; assignments?: UserAssignment[]; }
+export interface GeolocationCoords { latitude: number; longitude: number; }
+// Conferência do local (geofence): "unverified" sem GPS, sem coordenadas do local ou com precisão ruim demais
+export type GeofenceStatus = "inside" | "outside" | "unverified";
+// Posição do aparelho numa etapa de fotos; accuracy e distance (até o local) em metros
+export interface PositionCheck {
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  distance?: number;
+  capturedAt: string;
+  status: GeofenceStatus;
+}
+
+// "camera" = tirada na tela de captura do app; "gallery" = escolhida em "Adicionar Foto do Dispositivo"
+export type PhotoSource = "camera" | "gallery";
+
+// Dados de cada foto, também gravados na imagem como marca d'água: quando, onde e de qual serviço
+export interface PhotoMetadata {
+  takenAt: string;
+  source?: PhotoSource;
+  // Quando a foto entrou no app e, nas fotos da galeria, a data de modificação do arquivo original
+  capturedAt?: string;
+  fileLastModified?: string;
+  // SHA-256 (hex) da imagem final, calculado na captura: mostra se o arquivo foi trocado depois
+  sha256?: string;
+  // Foto da galeria mais antiga que o início do serviço: precisa de revisão
+  flaggedForReview?: boolean;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  contractGroup?: string;
+  locationName?: string;
+  serviceType?: string;
+  operatorName?: string;
+}
+
+export interface LocationRecord { id: string; contractGroup: string; name: string; observations?: string; coords?: GeolocationCoords; services?: LocationServiceDetail[]; parentId?: string | null; isGroup?: boolean; }
+
+export interface ServiceRecord {
+  id: string; operatorId: string; operatorName: string; serviceType: string; serviceUnit: string;
+  locationId?: string; locationName: string; contractGroup: string; locationArea?: number;
+  gpsUsed: boolean; startTime: string; endTime: string; beforePhotos: string[]; afterPhotos: string[];
+  tempId?: string; coords?: GeolocationCoords;
+  observations?: string;
+  overrideMeasurement?: number;
+  serviceId?: number;
+  serviceOrderNumber?: string;
+  beforePosition?: PositionCheck;
+  afterPosition?: PositionCheck;
+  // Raio (m) do contrato usado na conferência e o resultado das duas etapas
+  geofenceRadius?: number;
+  geofenceStatus?: GeofenceStatus;
+  // Metadados enviados no upload, pela URL da foto (beforePhotos/afterPhotos)
+  photoMetadata?: Record<string, PhotoMetadata>;
+  // Incrementada pelo servidor a cada alteração; vai no If-Match das edições
+  version?: number;
+}
+
+export interface Goal {
+  id: string;
+  contractGroup: string;
+  month: string;
+  targetArea: number;
+  serviceId: number;
+}
+
+export type AuditAction = "UPDATE" | "DELETE" | "ADJUST_MEASUREMENT";
+export interface AuditLogEntry { id: string; timestamp: string; adminId: string; adminUsername: string; action: AuditAction; recordId: string; details: string; }
+// geofenceRadius: raio (m) em volta do local dentro do qual o registro é aceito como feito no local
+export interface ContractConfig { id: number; contractGroup: string; cycleStartDay: number; geofenceRadius?: number; }
+
+// Resposta de GET /api/records/changes (sincronização incremental)
+export interface RecordChanges { records: ServiceRecord[]; deleted: string[]; cursor?: string | null; }
+
+// Dados do gráfico de desempenho (formato do Chart.js)
+export interface PerformanceGraphData { labels: string[]; datasets: any[]; }
+
+// Corpo de criação de registro enviado pela fila de sincronização
+export interface NewRecordPayload {
+  operatorId: string;
+  serviceId?: number;
+  serviceType?: string;
+  serviceUnit?: string;
+  locationId?: string;
+  locationName?: string;
+  contractGroup?: string;
+  locationArea?: number;
+  gpsUsed: boolean;
+  startTime: string;
+  serviceOrderNumber?: string;
+  beforePosition?: PositionCheck;
+  afterPosition?: PositionCheck;
+  geofenceRadius?: number;
+  geofenceStatus?: GeofenceStatus;
+  tempId: string;
+  newLocationInfo?: any;
+}
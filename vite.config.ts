@@ -0,0 +1,49 @@
+import { defineConfig, Plugin } from "vite";
+import { resolve } from "path";
+import { createHash } from "crypto";
+
+// Arquivos de public/ que o app instalado precisa sem sinal (não passam pelo bundle)
+const PUBLIC_PRECACHE = [
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/icon-maskable-512.png",
+  "/icons/apple-touch-icon.png",
+];
+
+// Injeta no sw.js a lista de arquivos gerados pelo build (index.html, JS, CSS, fontes, imagens).
+// Como os nomes têm hash, o sw.js muda a cada deploy e o navegador instala a versão nova.
+function precacheManifest(): Plugin {
+  return {
+    name: "crb-precache-manifest",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const urls = [
+        ...PUBLIC_PRECACHE,
+        ...Object.keys(bundle).filter(file => file !== "sw.js" && !file.endsWith(".map")).map(file => `/${file}`),
+      ];
+      const revision = createHash("sha256").update(urls.join("\n")).digest("hex").slice(0, 12);
+      const sw = bundle["sw.js"];
+      if (sw?.type === "chunk") {
+        sw.code = sw.code.replaceAll("__PRECACHE_MANIFEST__", JSON.stringify({ revision, urls }));
+      }
+    },
+  };
+}
+
+export default defineConfig({
+  plugins: [precacheManifest()],
+  build: {
+    rollupOptions: {
+      input: {
+        main: resolve(__dirname, "index.html"),
+        // Service worker (sincronização em segundo plano + app shell offline): precisa ficar na raiz como /sw.js
+        sw: resolve(__dirname, "sw.ts"),
+      },
+      output: {
+        entryFileNames: chunk => (chunk.name === "sw" ? "sw.js" : "assets/[name]-[hash].js"),
+      },
+    },
+  },
+});